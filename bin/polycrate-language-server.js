@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Speaks LSP over stdio; `--stdio` and the other transport flags are read by the server
+require('../out/server');
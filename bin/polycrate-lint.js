@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+require('../out/polycrateLint').main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, error => {
+    console.error(error);
+    process.exitCode = 2;
+});
@@ -0,0 +1,132 @@
+import { Document, Node, isScalar, visit } from 'yaml';
+import { OffsetRange, findPair, getNodeAtPath, getScalarValue, getSeqItems, keyRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import { TemplateReference, findRescopedExpressions, findTemplateReferences, scanTemplateExpressions } from './templateExpressions';
+
+// Commands that remove deployments or data and should be confirmed first
+const destructiveCommands: RegExp[] = [
+    /\bhelm\s+(?:uninstall|delete|del)\b/g,
+    /\bkubectl\s+delete\s+(?:namespace|namespaces|ns|pvc|pv|persistentvolumes?|persistentvolumeclaims?)\b/g,
+    /\bkubectl\s+delete\b[^\n;&|]*\s--all\b/g,
+    /\bterraform\s+destroy\b/g,
+    /\bdrop\s+database\b/gi
+];
+
+/**
+ * Checks that the scripts of actions agree with their `interactive` and
+ * `prompt` settings, and that destructive commands are confirmed by a prompt.
+ */
+export class PolycrateActionPromptValidator {
+
+    public validate(ast: Document.Parsed, content: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        // Actions of block.poly and of block entries in workspace.poly
+        const actions = [
+            ...getSeqItems(root, ['actions']),
+            ...getSeqItems(root, ['blocks']).flatMap(block => getSeqItems(block, ['actions']))
+        ];
+
+        for (const action of actions) {
+            issues.push(...this.checkAction(action, content));
+        }
+
+        return issues;
+    }
+
+    private checkAction(action: Node, content: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const actionName = getScalarValue(action, 'name') || 'unnamed';
+        const isInteractive = getScalarValue(action, 'interactive') === 'true';
+        const message = getNodeAtPath(action, ['prompt', 'message']);
+        const hasMessage = isScalar(message) && typeof message.value === 'string' && message.value.trim() !== '';
+        const script = findPair(action, 'script');
+        const promptReferences = script ? this.findPromptReferences(script.value as Node, content) : [];
+        const destructive = script ? this.findDestructiveCommands(script.value as Node, content) : [];
+
+        if (!isInteractive) {
+            for (const reference of promptReferences) {
+                issues.push({
+                    message: `Action '${actionName}' uses '.${reference.segments.map(segment => segment.name).join('.')}' but is not interactive. Set 'interactive: true' so the prompt is shown`,
+                    range: reference.range,
+                    severity: 'warning',
+                    rule: 'prompt-input-not-interactive'
+                });
+            }
+        }
+
+        if (isInteractive && !hasMessage) {
+            issues.push({
+                message: `Interactive action '${actionName}' has no 'prompt.message' to ask the user with`,
+                range: keyRange(action, 'interactive'),
+                severity: 'warning',
+                rule: 'prompt-missing-message'
+            });
+        }
+
+        // A prompt without input is still used when it confirms a destructive command
+        if (findPair(action, 'prompt') && promptReferences.length === 0 && destructive.length === 0) {
+            issues.push({
+                message: `Action '${actionName}' declares a prompt, but its script never uses '.Prompt.Input'`,
+                range: keyRange(action, 'prompt'),
+                severity: 'info',
+                rule: 'prompt-unused'
+            });
+        }
+
+        if (!(isInteractive && hasMessage)) {
+            for (const command of destructive) {
+                issues.push({
+                    message: `Action '${actionName}' runs '${command.text}' without a confirmation prompt. Add 'interactive: true' and a 'prompt.message'`,
+                    range: command.range,
+                    severity: 'warning',
+                    rule: 'destructive-without-prompt'
+                });
+            }
+        }
+
+        return issues;
+    }
+
+    private findPromptReferences(script: Node | null, content: string): TemplateReference[] {
+        const references: TemplateReference[] = [];
+        this.visitScriptText(script, content, (text, offset) => {
+            const expressions = scanTemplateExpressions(text, offset).expressions;
+            const rescoped = findRescopedExpressions(expressions);
+            for (const expression of expressions) {
+                references.push(...findTemplateReferences(expression, rescoped.has(expression)).filter(reference => reference.segments[0].name === 'Prompt'));
+            }
+        });
+        return references;
+    }
+
+    private findDestructiveCommands(script: Node | null, content: string): { text: string; range: OffsetRange }[] {
+        const commands: { text: string; range: OffsetRange }[] = [];
+        this.visitScriptText(script, content, (text, offset) => {
+            for (const pattern of destructiveCommands) {
+                for (const match of text.matchAll(pattern)) {
+                    const start = offset + match.index!;
+                    commands.push({ text: match[0].replace(/\s+/g, ' '), range: { start, end: start + match[0].length } });
+                }
+            }
+        });
+        return commands.sort((a, b) => a.range.start - b.range.start);
+    }
+
+    /**
+     * Calls `callback` with the source text of every string in a script,
+     * which is either a single string or a list of lines.
+     */
+    private visitScriptText(script: Node | null, content: string, callback: (text: string, offset: number) => void): void {
+        if (!script) {
+            return;
+        }
+        visit(script, {
+            Scalar(_key, node) {
+                if (typeof node.value === 'string' && node.range) {
+                    callback(content.substring(node.range[0], node.range[1]), node.range[0]);
+                }
+            }
+        });
+    }
+}
@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OffsetRange, getScalarValue, parsePolyDocument, valueRange } from './yamlAst';
+import { PolycrateChangelogValidator } from './changelogValidator';
+import { PolycrateWorkspaceModel, ReadFile, readFileFromDisk } from './workspaceModel';
+
+export interface ResolvedActions {
+    /** Action definitions by name, nearest definition wins */
+    actions: Map<string, any>;
+    /** False when part of the inheritance chain is not available locally */
+    complete: boolean;
+}
+
+export interface LocalVersion {
+    version: string;
+    /** `description` or `message` of the changelog entry */
+    summary?: string;
+}
+
+export interface LocalBlock {
+    /** Directory name below blocksroot */
+    directory: string;
+    /** Name declared in the block config */
+    name?: string;
+    nameRange?: OffsetRange;
+    filePath: string;
+}
+
+/**
+ * Resolves blocks of a workspace from the blocksroot directory, including
+ * their `from` inheritance chain.
+ */
+export class PolycrateBlockResolver {
+
+    private localBlocks?: LocalBlock[];
+
+    constructor(private model: PolycrateWorkspaceModel, private readFile: ReadFile = readFileFromDisk) {}
+
+    /**
+     * Names of all blocks found below blocksroot: the `name` declared in their
+     * block config, or the directory name of blocks that declare none.
+     */
+    public listLocalBlocks(): string[] {
+        return [...new Set(this.listLocalBlockFiles().map(block => block.name || block.directory))];
+    }
+
+    /**
+     * Block directories directly below blocksroot that contain a block config.
+     * The directory is read once per resolver.
+     */
+    public listLocalBlockFiles(): LocalBlock[] {
+        if (!this.localBlocks) {
+            this.localBlocks = this.readLocalBlockFiles();
+        }
+        return this.localBlocks;
+    }
+
+    private readLocalBlockFiles(): LocalBlock[] {
+        const blocks: LocalBlock[] = [];
+        if (!fs.existsSync(this.model.blocksRoot)) {
+            return blocks;
+        }
+        for (const entry of fs.readdirSync(this.model.blocksRoot, { withFileTypes: true })) {
+            const filePath = this.model.getBlockConfigPath(entry.name);
+            if (!entry.isDirectory() || !fs.existsSync(filePath)) {
+                continue;
+            }
+            try {
+                const ast = parsePolyDocument(this.readFile(filePath));
+                blocks.push({
+                    directory: entry.name,
+                    name: getScalarValue(ast.contents, 'name'),
+                    nameRange: valueRange(ast.contents, 'name'),
+                    filePath
+                });
+            } catch (error) {
+                blocks.push({ directory: entry.name, filePath });
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * The block name implied by the location of a block config below
+     * blocksroot, or undefined if the file is outside of blocksroot.
+     */
+    public getBlockDirectory(blockPolyPath: string): string | undefined {
+        const relative = path.relative(this.model.blocksRoot, path.dirname(blockPolyPath));
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return relative.split(path.sep).join('/');
+    }
+
+    /**
+     * Directory below blocksroot of the block called `name`. Local blocks are
+     * known by the `name` their block config declares, so a directory whose
+     * block declares another name does not match. Returns undefined if no
+     * block of that name exists.
+     */
+    public findBlockDirectory(name: string): string | undefined {
+        const blocks = this.listLocalBlockFiles();
+        const local = blocks.find(block => block.name === name) || blocks.find(block => block.directory === name && !block.name);
+        if (local) {
+            return local.directory;
+        }
+        // Registry blocks pulled into the workspace live in nested directories
+        return !blocks.some(block => block.directory === name) && fs.existsSync(this.model.getBlockConfigPath(name)) ? name : undefined;
+    }
+
+    /**
+     * Loads `<blocksroot>/<name>/<blocksconfig>`. Registry blocks pulled into
+     * the workspace live in nested directories, so `name` may contain slashes.
+     */
+    public loadBlock(name: string): any | null {
+        const blockPolyPath = this.model.getBlockConfigPath(name);
+        try {
+            if (!fs.existsSync(blockPolyPath)) {
+                return null;
+            }
+            return parsePolyDocument(this.readFile(blockPolyPath)).toJS() || null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Versions of the local block called `name` known from its CHANGELOG.poly,
+     * in file order, followed by the `version` in its block config.
+     */
+    public getLocalVersions(name: string): LocalVersion[] {
+        const versions: LocalVersion[] = [];
+        const directory = this.findBlockDirectory(name);
+        if (!directory) {
+            return versions;
+        }
+        const blockDir = this.model.getBlockDir(directory);
+        try {
+            const changelogPath = path.join(blockDir, 'CHANGELOG.poly');
+            if (fs.existsSync(changelogPath)) {
+                const ast = parsePolyDocument(this.readFile(changelogPath));
+                for (const entry of PolycrateChangelogValidator.getEntries(ast)) {
+                    const version = getScalarValue(entry, 'version');
+                    if (version) {
+                        versions.push({ version, summary: getScalarValue(entry, 'description') || getScalarValue(entry, 'message') });
+                    }
+                }
+            }
+        } catch (error) {
+            // An unreadable changelog contributes no versions
+        }
+        const block = this.loadBlock(directory);
+        if (block && block.version !== undefined) {
+            versions.push({ version: String(block.version) });
+        }
+        return versions;
+    }
+
+    /**
+     * Collects the actions of a workspace block entry, the local block of the
+     * same name and every block up its `from` chain.
+     */
+    public getActions(entry: any): ResolvedActions {
+        const result: ResolvedActions = { actions: new Map(), complete: true };
+        for (const block of this.getChain(entry, result)) {
+            for (const action of Array.isArray(block.actions) ? block.actions : []) {
+                if (action && typeof action.name === 'string' && !result.actions.has(action.name)) {
+                    result.actions.set(action.name, action);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Merges the config of a workspace block entry over its local block and
+     * `from` parents. Returns undefined if part of the chain is unavailable.
+     */
+    public getConfig(entry: any): any {
+        const status = { complete: true };
+        const chain = this.getChain(entry, status);
+        if (!status.complete) {
+            return undefined;
+        }
+        return chain.reduceRight((config, block) => mergeConfig(config, block.config || {}), {});
+    }
+
+    /**
+     * The config a block declares itself (local block.poly and `from` parents),
+     * without the overrides of the workspace entry. Returns undefined if no
+     * block definition is found or part of the chain is unavailable.
+     */
+    public getDeclaredConfig(entry: any): any {
+        const status = { complete: true };
+        const chain = this.getChain({ name: entry.name, from: entry.from }, status);
+        if (!status.complete || chain.length < 2) {
+            return undefined;
+        }
+        return chain.reduceRight((config, block) => mergeConfig(config, block.config || {}), {});
+    }
+
+    /**
+     * The block a workspace entry or block.poly resolves to: the entry merged
+     * over its local block and `from` parents. Returns undefined if part of
+     * the chain is unavailable.
+     */
+    public resolveBlock(entry: any): any {
+        const status = { complete: true };
+        const chain = this.getChain(entry, status);
+        if (!status.complete) {
+            return undefined;
+        }
+        return chain.reduceRight((block, current) => mergeConfig(block, current), {});
+    }
+
+    private getChain(entry: any, status: { complete: boolean }): any[] {
+        const chain: any[] = [entry];
+        const visited = new Set<string>();
+
+        const directory = typeof entry.name === 'string' ? this.findBlockDirectory(entry.name) : undefined;
+        const local = directory ? this.loadBlock(directory) : null;
+        if (local) {
+            chain.push(local);
+            visited.add(entry.name);
+        }
+
+        // A 'from' on the workspace entry takes precedence over the local block's
+        let from = entry.from || (local && local.from);
+        while (typeof from === 'string') {
+            const parentName = stripVersion(from);
+            if (visited.has(parentName)) {
+                break;
+            }
+            visited.add(parentName);
+            const parent = this.loadBlock(parentName);
+            if (!parent) {
+                status.complete = false;
+                break;
+            }
+            chain.push(parent);
+            from = parent.from;
+        }
+
+        return chain;
+    }
+}
+
+/**
+ * Removes a `:tag` or `@version` suffix from a block reference.
+ */
+export function stripVersion(reference: string): string {
+    const lastSlash = reference.lastIndexOf('/');
+    const tail = reference.substring(lastSlash + 1);
+    const separator = tail.search(/[:@]/);
+    return separator === -1 ? reference : reference.substring(0, lastSlash + 1 + separator);
+}
+
+/**
+ * Deep-merges `override` onto `base`; arrays and scalars are replaced.
+ */
+export function mergeConfig(base: any, override: any): any {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return override === undefined ? base : override;
+    }
+    const merged: any = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = key in base ? mergeConfig(base[key], value) : value;
+    }
+    return merged;
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
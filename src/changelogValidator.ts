@@ -0,0 +1,113 @@
+import { Document, Node, isMap, isSeq } from 'yaml';
+import { getScalarValue, getSeqItems, itemAnchorRange, valueRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import { SemVer, compareSemver, parseSemver } from './semver';
+
+// ISO 8601 calendar date with optional time and timezone
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Semantic checks for CHANGELOG.poly that go beyond the JSON Schema: version
+ * format and ordering, dates, descriptions and consistency with block.poly.
+ */
+export class PolycrateChangelogValidator {
+
+    /**
+     * Returns the changelog entries of either supported layout: a top-level
+     * list of entries, or a map with a `changes` list.
+     */
+    public static getEntries(ast: Document.Parsed): Node[] {
+        if (isSeq(ast.contents)) {
+            return ast.contents.items as Node[];
+        }
+        if (isMap(ast.contents)) {
+            return getSeqItems(ast.contents, ['changes']);
+        }
+        return [];
+    }
+
+    public validate(ast: Document.Parsed, content: string, blockVersion?: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const entries = PolycrateChangelogValidator.getEntries(ast);
+        const seen = new Map<string, number>();
+        let previous: SemVer | undefined;
+        let latest: { semver: SemVer; entry: Node } | undefined;
+
+        entries.forEach((entry, i) => {
+            const version = getScalarValue(entry, 'version');
+            const versionRange = valueRange(entry, 'version') || itemAnchorRange(entry, content);
+
+            if (version) {
+                const semver = parseSemver(version);
+                if (!semver) {
+                    issues.push({
+                        message: `Invalid version '${version}'. Changelog versions must follow semantic versioning (e.g. 1.2.3)`,
+                        range: versionRange,
+                        severity: 'error',
+                        rule: 'changelog-version-format'
+                    });
+                } else {
+                    const normalized = `${semver.major}.${semver.minor}.${semver.patch}${semver.prerelease.length ? '-' + semver.prerelease.join('.') : ''}`;
+                    if (seen.has(normalized)) {
+                        issues.push({
+                            message: `Duplicate changelog version '${version}' (also listed in entry ${seen.get(normalized)! + 1})`,
+                            range: versionRange,
+                            severity: 'error',
+                            rule: 'changelog-duplicate-version'
+                        });
+                    } else {
+                        seen.set(normalized, i);
+                    }
+
+                    // Entries are expected newest first
+                    if (previous && compareSemver(semver, previous) > 0) {
+                        issues.push({
+                            message: `Changelog version '${version}' is newer than the preceding entry '${previous.raw}'. Entries should be ordered newest first`,
+                            range: versionRange,
+                            severity: 'warning',
+                            rule: 'changelog-order'
+                        });
+                    }
+                    previous = semver;
+
+                    if (!latest || compareSemver(semver, latest.semver) > 0) {
+                        latest = { semver, entry };
+                    }
+                }
+            }
+
+            const date = getScalarValue(entry, 'date');
+            if (date !== undefined && (!isoDatePattern.test(date) || isNaN(Date.parse(date)))) {
+                issues.push({
+                    message: `Invalid date '${date}'. Use an ISO 8601 date such as 2024-01-15 or 2024-01-15T10:00:00Z`,
+                    range: valueRange(entry, 'date'),
+                    severity: 'error',
+                    rule: 'changelog-date-format'
+                });
+            }
+
+            if (!getScalarValue(entry, 'description')) {
+                issues.push({
+                    message: `Changelog entry${version ? ` '${version}'` : ''} is missing a description`,
+                    range: versionRange,
+                    severity: 'warning',
+                    rule: 'changelog-missing-description'
+                });
+            }
+        });
+
+        if (latest && blockVersion) {
+            const expected = parseSemver(blockVersion);
+            if (!expected || compareSemver(expected, latest.semver) !== 0) {
+                issues.push({
+                    message: `Newest changelog version '${latest.semver.raw}' does not match version '${blockVersion}' in block.poly`,
+                    range: valueRange(latest.entry, 'version'),
+                    severity: 'warning',
+                    rule: 'changelog-version-mismatch'
+                });
+            }
+        }
+
+        return issues;
+    }
+}
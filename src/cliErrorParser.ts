@@ -0,0 +1,190 @@
+import * as path from 'path';
+import { Document, Node, isMap, isScalar, isSeq, visit } from 'yaml';
+import { OffsetRange, YamlPath } from './yamlAst';
+import { normalizeTemplateKey } from './templateExpressions';
+
+/**
+ * A single error reported by the Polycrate CLI, with whatever location
+ * information its message contains.
+ */
+export interface CliError {
+    message: string;
+    /** Absolute path of the file named in the message */
+    filePath?: string;
+    /** 1-based line number */
+    line?: number;
+    /** 1-based column */
+    column?: number;
+    /** Path of the offending field, e.g. from `Key: 'Workspace.Blocks[0].Name'` */
+    fieldPath?: YamlPath;
+    /** Name of an unknown or invalid key without a full path */
+    key?: string;
+}
+
+const logLinePattern = /level=(\w+)\s+msg="((?:[^"\\]|\\.)*)"/;
+const filePattern = /((?:[A-Za-z]:)?[\w.\-/\\]*?(?:workspace|block|CHANGELOG)\.poly|\.workspace)(?::(\d+)(?::(\d+))?)?/;
+const linePattern = /\bline (\d+)(?:,? column (\d+))?/;
+const validatorKeyPattern = /Key: '([^']+)'/;
+const unknownFieldPattern = /field ([\w-]+) not found in type|unknown field "?([\w-]+)"?|invalid (?:value for )?(?:field|key) '?([\w-]+)'?/i;
+
+/**
+ * Splits CLI error output into individual errors and extracts file, line and
+ * field information. Relative file paths are resolved against `workspaceRoot`.
+ */
+export function parseCliErrors(output: string, workspaceRoot: string): CliError[] {
+    const errors: CliError[] = [];
+    // A header such as "yaml: unmarshal errors:" whose details follow indented
+    let header: CliError | undefined;
+    let headerUsed = false;
+
+    for (let line of expandLogLines(output)) {
+        line = line.trimEnd();
+        if (!line.trim()) {
+            continue;
+        }
+
+        if (/^\s+/.test(line) && header) {
+            errors.push(parseMessage(line.trim(), workspaceRoot, header));
+            headerUsed = true;
+            continue;
+        }
+
+        if (header && !headerUsed) {
+            errors.push(header);
+        }
+        const error = parseMessage(line.trim(), workspaceRoot);
+        header = /:$/.test(line) ? error : undefined;
+        headerUsed = false;
+        if (!header) {
+            errors.push(error);
+        }
+    }
+
+    if (header && !headerUsed) {
+        errors.push(header);
+    }
+
+    return errors;
+}
+
+/**
+ * Replaces structured log lines (`level=error msg="..."`) by their message
+ * and drops log lines below error level.
+ */
+function expandLogLines(output: string): string[] {
+    const lines: string[] = [];
+    for (const line of output.split('\n')) {
+        const logLine = line.match(logLinePattern);
+        if (!logLine) {
+            lines.push(line);
+        } else if (['error', 'fatal', 'panic'].includes(logLine[1])) {
+            const message = logLine[2].replace(/\\(.)/g, (_match, char) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+            lines.push(...message.split('\n'));
+        }
+    }
+    return lines;
+}
+
+function parseMessage(message: string, workspaceRoot: string, context?: CliError): CliError {
+    const error: CliError = {
+        message: context ? `${context.message.replace(/:\s*$/, '')}: ${message}` : message,
+        filePath: context && context.filePath
+    };
+
+    const file = message.match(filePattern);
+    if (file) {
+        error.filePath = path.resolve(workspaceRoot, file[1]);
+        if (file[2]) {
+            error.line = parseInt(file[2], 10);
+            error.column = file[3] ? parseInt(file[3], 10) : undefined;
+        }
+    }
+
+    const line = message.match(linePattern);
+    if (line && error.line === undefined) {
+        error.line = parseInt(line[1], 10);
+        error.column = line[2] ? parseInt(line[2], 10) : undefined;
+    }
+
+    const validatorKey = message.match(validatorKeyPattern);
+    if (validatorKey) {
+        // The first segment is the Go type of the document root
+        error.fieldPath = validatorKey[1].split('.').slice(1).flatMap(segment => {
+            const indexed = segment.match(/^([^[]+)\[(\d+)\]$/);
+            return indexed ? [indexed[1], parseInt(indexed[2], 10)] : [segment];
+        });
+    }
+
+    const unknownField = message.match(unknownFieldPattern);
+    if (unknownField) {
+        error.key = unknownField[1] || unknownField[2] || unknownField[3];
+    }
+
+    return error;
+}
+
+/**
+ * Finds the range in a parsed document that a CLI error refers to, or
+ * undefined if the error carries no usable location.
+ */
+export function locateCliError(error: CliError, ast: Document.Parsed, content: string): OffsetRange | undefined {
+    if (error.line !== undefined) {
+        const lines = content.split('\n');
+        if (error.line >= 1 && error.line <= lines.length) {
+            const lineStart = lines.slice(0, error.line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+            const text = lines[error.line - 1];
+            const indent = text.length - text.trimStart().length;
+            return { start: lineStart + indent, end: lineStart + text.trimEnd().length };
+        }
+    }
+
+    if (error.fieldPath) {
+        const node = findByFieldPath(ast.contents, error.fieldPath);
+        if (node && node.range) {
+            return { start: node.range[0], end: node.range[1] };
+        }
+    }
+
+    if (error.key) {
+        const normalized = normalizeTemplateKey(error.key);
+        let found: OffsetRange | undefined;
+        visit(ast, {
+            Pair(_key, pair) {
+                if (isScalar(pair.key) && normalizeTemplateKey(String(pair.key.value)) === normalized && pair.key.range) {
+                    found = { start: pair.key.range[0], end: pair.key.range[1] };
+                    return visit.BREAK;
+                }
+                return undefined;
+            }
+        });
+        return found;
+    }
+
+    return undefined;
+}
+
+/**
+ * Like `getNodeAtPath`, but matches Go field names (`DisplayName`) against
+ * YAML keys (`display_name`). Returns the deepest node that was found.
+ */
+function findByFieldPath(root: unknown, fieldPath: YamlPath): Node | undefined {
+    let current = root as Node | undefined;
+    for (const segment of fieldPath) {
+        let next: Node | undefined;
+        if (typeof segment === 'number' && isSeq(current)) {
+            next = current.items[segment] as Node | undefined;
+        } else if (typeof segment === 'string' && isMap(current)) {
+            const pair = current.items.find(item => isScalar(item.key) && normalizeTemplateKey(String(item.key.value)) === normalizeTemplateKey(segment));
+            // A missing field is reported at its parent
+            if (!pair) {
+                break;
+            }
+            next = (pair.value as Node | null) || (pair.key as Node);
+        }
+        if (!next) {
+            break;
+        }
+        current = next;
+    }
+    return current === root ? undefined : current;
+}
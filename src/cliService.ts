@@ -0,0 +1,299 @@
+import { spawn } from 'child_process';
+import { parse } from 'yaml';
+import { BlockSnapshot, WorkspaceSnapshot, normalizeSnapshot } from './workspaceSnapshot';
+
+export type CliOutputFormat = 'yaml' | 'json';
+
+/** The `polycrate.cli.*` settings */
+export interface CliSettings {
+    path: string;
+    /** Milliseconds */
+    timeout: number;
+    maxConcurrent: number;
+    outputFormat: CliOutputFormat;
+}
+
+/** Cancellation as provided by VS Code and by the language server connection */
+export interface CancellationToken {
+    isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface CliRunOptions {
+    cwd?: string;
+    token?: CancellationToken;
+    /** Overrides `polycrate.cli.timeout` (milliseconds) */
+    timeout?: number;
+    /** Added to the environment of the extension host */
+    env?: { [name: string]: string };
+}
+
+export interface BlockSearchResult {
+    name: string;
+    kind?: string;
+    version?: string;
+    description?: string;
+    [key: string]: any;
+}
+
+export class PolycrateCliError extends Error {
+    constructor(message: string, public readonly args: string[]) {
+        super(message);
+        this.name = 'PolycrateCliError';
+    }
+}
+
+/** The configured `polycrate.cli.path` could not be executed */
+export class CliNotFoundError extends PolycrateCliError {
+    constructor(public readonly cliPath: string, args: string[]) {
+        super(`Polycrate CLI not found at '${cliPath}'. Install it or set 'polycrate.cli.path'`, args);
+        this.name = 'CliNotFoundError';
+    }
+}
+
+/** The CLI ran but exited with a non-zero code */
+export class CliFailedError extends PolycrateCliError {
+    constructor(public readonly exitCode: number | null, public readonly stderr: string, args: string[]) {
+        super(`Command failed with code ${exitCode}: ${stderr}`, args);
+        this.name = 'CliFailedError';
+    }
+}
+
+/** The CLI did not finish within the configured timeout and was stopped */
+export class CliTimeoutError extends PolycrateCliError {
+    constructor(public readonly timeout: number, args: string[]) {
+        super(`Command 'polycrate ${args.join(' ')}' timed out after ${timeout} ms`, args);
+        this.name = 'CliTimeoutError';
+    }
+}
+
+/** The run was cancelled through its token before the CLI finished */
+export class CliCancelledError extends PolycrateCliError {
+    constructor(args: string[]) {
+        super(`Command 'polycrate ${args.join(' ')}' was cancelled`, args);
+        this.name = 'CliCancelledError';
+    }
+}
+
+/**
+ * Runs the Polycrate CLI for all providers. Limits the number of concurrent
+ * processes, applies timeouts and cancellation, and parses structured output.
+ */
+export class PolycrateCliService {
+    private getSettings: () => CliSettings;
+    private log: (message: string) => void;
+    private running = 0;
+    private queue: (() => void)[] = [];
+    private availability = new Map<string, Promise<boolean>>();
+    // Commands whose CLI version rejected `--output json`, keyed by cli path and subcommand
+    private jsonUnsupported = new Set<string>();
+
+    constructor(getSettings: () => CliSettings, log: (message: string) => void = () => undefined) {
+        this.getSettings = getSettings;
+        this.log = log;
+    }
+
+    /**
+     * Runs the CLI and returns its stdout.
+     */
+    public async run(args: string[], options: CliRunOptions = {}): Promise<string> {
+        await this.acquire(args, options.token);
+        try {
+            return await this.spawnCli(args, options);
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * Runs the CLI and parses its output. JSON is requested when the
+     * configured format asks for it; CLI versions without `--output` fall
+     * back to YAML, which the parser reads as well. Commands whose output may
+     * also be plain text pass their own `parseOutput`.
+     */
+    public async runStructured<T>(args: string[], options: CliRunOptions = {}, parseOutput: (output: string) => T = parse): Promise<T> {
+        const format = this.getSettings().outputFormat;
+        const commandKey = `${this.getSettings().path} ${args.filter(arg => !arg.startsWith('-')).slice(0, 2).join(' ')}`;
+
+        if (format === 'json' && !this.jsonUnsupported.has(commandKey)) {
+            try {
+                return parseOutput(await this.run([...args, '--output', 'json'], options));
+            } catch (error) {
+                if (!(error instanceof CliFailedError) || !/unknown (flag|shorthand)/i.test(error.stderr)) {
+                    throw error;
+                }
+                this.log(`'${commandKey}' does not support --output json, using YAML`);
+                this.jsonUnsupported.add(commandKey);
+            }
+        }
+
+        return parseOutput(await this.run(args, options));
+    }
+
+    /**
+     * Whether the configured CLI can be executed. Cached per `polycrate.cli.path`
+     * once the CLI ran; a failed check is repeated on the next call, as a
+     * timeout or a slow first start says nothing about later runs.
+     */
+    public isAvailable(): Promise<boolean> {
+        const cliPath = this.getSettings().path;
+        let available = this.availability.get(cliPath);
+        if (!available) {
+            available = this.run(['version']).then(() => true, error => {
+                this.log(`CLI not available: ${error}`);
+                return false;
+            });
+            this.availability.set(cliPath, available);
+            const pending = available;
+            pending.then(result => {
+                if (!result && this.availability.get(cliPath) === pending) {
+                    this.availability.delete(cliPath);
+                }
+            });
+        }
+        return available;
+    }
+
+    public async getVersion(options: CliRunOptions = {}): Promise<string> {
+        return (await this.run(['version'], options)).trim();
+    }
+
+    public async getWorkspaceSnapshot(workspaceRoot: string, options: CliRunOptions = {}): Promise<WorkspaceSnapshot> {
+        return normalizeSnapshot(await this.runStructured<any>(['workspace', 'snapshot'], { ...options, cwd: workspaceRoot }));
+    }
+
+    public async inspectBlock(blockName: string, options: CliRunOptions = {}): Promise<BlockSnapshot> {
+        const block = await this.runStructured<any>(['blocks', 'inspect', blockName], options);
+        return { name: blockName, ...(block && typeof block === 'object' ? block : {}) };
+    }
+
+    public async searchBlocks(query: string, options: CliRunOptions & { registry?: string } = {}): Promise<BlockSearchResult[]> {
+        const args = ['blocks', 'search', ...(options.registry ? ['--registry', options.registry] : []), query];
+        return this.runStructured(args, options, parseBlockList);
+    }
+
+    private spawnCli(args: string[], options: CliRunOptions): Promise<string> {
+        const cliPath = this.getSettings().path;
+        const timeout = options.timeout ?? this.getSettings().timeout;
+        const started = Date.now();
+        this.log(`$ ${cliPath} ${args.join(' ')}${options.cwd ? ` (in ${options.cwd})` : ''}`);
+
+        return new Promise((resolve, reject) => {
+            if (options.token && options.token.isCancellationRequested) {
+                reject(new CliCancelledError(args));
+                return;
+            }
+
+            const child = spawn(cliPath, args, {
+                cwd: options.cwd || process.cwd(),
+                // Colored or interactive output cannot be parsed
+                env: { ...process.env, NO_COLOR: '1', ...options.env },
+                stdio: 'pipe'
+            });
+
+            let stdout = '';
+            let stderr = '';
+            let settled = false;
+
+            const finish = (error: Error | undefined, output?: string) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                cancellation?.dispose();
+                this.log(`  ${error ? error.name : 'done'} after ${Date.now() - started} ms`);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(output || '');
+                }
+            };
+
+            const timer = setTimeout(() => {
+                child.kill();
+                finish(new CliTimeoutError(timeout, args));
+            }, timeout);
+
+            const cancellation = options.token?.onCancellationRequested(() => {
+                child.kill();
+                finish(new CliCancelledError(args));
+            });
+
+            child.stdout.on('data', (data) => {
+                stdout += data.toString();
+            });
+
+            child.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            child.on('close', (code) => {
+                if (code === 0) {
+                    finish(undefined, stdout);
+                } else {
+                    finish(new CliFailedError(code, stderr.trim(), args));
+                }
+            });
+
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                finish(error.code === 'ENOENT' ? new CliNotFoundError(cliPath, args) : error);
+            });
+        });
+    }
+
+    private acquire(args: string[], token?: CancellationToken): Promise<void> {
+        const limit = Math.max(1, this.getSettings().maxConcurrent);
+        if (this.running < limit) {
+            this.running++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                cancellation?.dispose();
+                this.running++;
+                resolve();
+            };
+            const cancellation = token?.onCancellationRequested(() => {
+                this.queue = this.queue.filter(waiting => waiting !== start);
+                reject(new CliCancelledError(args));
+            });
+            this.queue.push(start);
+        });
+    }
+
+    private release(): void {
+        this.running--;
+        const next = this.queue.shift();
+        if (next) {
+            next();
+        }
+    }
+}
+
+/**
+ * Reads a block list printed by `blocks search` or `blocks list`. Structured
+ * output is used as-is; plain text falls back to `Name: <block>` lines.
+ */
+export function parseBlockList(output: string): BlockSearchResult[] {
+    try {
+        const parsed = parse(output);
+        if (Array.isArray(parsed)) {
+            return parsed;
+        }
+        if (parsed && Array.isArray(parsed.blocks)) {
+            return parsed.blocks;
+        }
+    } catch (error) {
+        // Not YAML or JSON, fall back to line parsing
+    }
+
+    const blocks: BlockSearchResult[] = [];
+    for (const line of output.split('\n').filter(line => line.trim())) {
+        const match = line.match(/(?:Name|Block):\s*(\S+)/);
+        if (match) {
+            blocks.push({ name: match[1], description: line.trim() });
+        }
+    }
+    return blocks;
+}
@@ -0,0 +1,127 @@
+import { CancellationToken, CodeAction, CodeActionKind, CodeActionParams, Diagnostic, Position, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { PolycrateLanguageServer, VersionCandidate } from './languageServer';
+import { FromReference, findFromReferences, getPinState, pinFrom } from './fromReferences';
+import { parsePolyDocument } from './yamlAst';
+
+const pinRules = ['from-latest-tag', 'from-missing-version'];
+// Number of versions offered per unpinned reference
+const maxPinActions = 3;
+
+export class PolycrateCodeActionProvider {
+    public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix];
+
+    constructor(private languageServer: PolycrateLanguageServer) {}
+
+    public async provideCodeActions(document: TextDocument, params: CodeActionParams, token: CancellationToken): Promise<CodeAction[]> {
+        const actions: CodeAction[] = [];
+        const context = params.context;
+
+        for (const quickFix of await this.languageServer.getQuickFixes(document)) {
+            if (!rangesIntersect(quickFix.diagnostic.range, params.range)) {
+                continue;
+            }
+
+            actions.push({
+                title: quickFix.title,
+                kind: CodeActionKind.QuickFix,
+                edit: quickFix.edit,
+                // Link the action to the diagnostic shown in the editor so it appears in the problems view
+                diagnostics: context.diagnostics.filter(diagnostic =>
+                    diagnostic.message === quickFix.diagnostic.message && rangesEqual(diagnostic.range, quickFix.diagnostic.range)
+                ),
+                isPreferred: true
+            });
+        }
+
+        const pinDiagnostics = context.diagnostics.filter(diagnostic => pinRules.includes(String(diagnostic.code)));
+        if (pinDiagnostics.length > 0) {
+            actions.push(...await this.getPinActions(document, pinDiagnostics, token));
+        }
+
+        return actions;
+    }
+
+    /**
+     * Offers to pin each unpinned `from` reference the diagnostics point at to
+     * one of its known versions, plus one action that pins every unpinned
+     * reference in the file to its newest version.
+     */
+    private async getPinActions(document: TextDocument, diagnostics: Diagnostic[], token: CancellationToken): Promise<CodeAction[]> {
+        const actions: CodeAction[] = [];
+        const unpinned = findFromReferences(parsePolyDocument(document.getText()))
+            .filter(reference => reference.range && getPinState(reference.from) !== 'pinned');
+        const candidates = new Map<FromReference, VersionCandidate[]>();
+        for (const reference of unpinned) {
+            candidates.set(reference, await this.languageServer.getVersionCandidates(document, reference, token));
+            if (token.isCancellationRequested) {
+                return [];
+            }
+        }
+
+        for (const diagnostic of diagnostics) {
+            const reference = unpinned.find(candidate => rangesEqual(this.toRange(document, candidate), diagnostic.range));
+            const versions = reference && candidates.get(reference);
+            if (!reference || !versions) {
+                continue;
+            }
+            versions.slice(0, maxPinActions).forEach((candidate, i) => {
+                const pinned = pinFrom(reference.from, candidate.version);
+                actions.push({
+                    title: `Pin to '${pinned}' (${candidate.source})`,
+                    kind: CodeActionKind.QuickFix,
+                    edit: { changes: { [document.uri]: [TextEdit.replace(this.toValueRange(document, reference), pinned)] } },
+                    diagnostics: [diagnostic],
+                    isPreferred: i === 0
+                });
+            });
+        }
+
+        const pinEdits: TextEdit[] = [];
+        for (const reference of unpinned) {
+            const versions = candidates.get(reference);
+            if (versions && versions.length > 0) {
+                pinEdits.push(TextEdit.replace(this.toValueRange(document, reference), pinFrom(reference.from, versions[0].version)));
+            }
+        }
+        if (pinEdits.length > 1) {
+            actions.push({
+                title: `Pin all unpinned 'from' references in file (${pinEdits.length})`,
+                kind: CodeActionKind.QuickFix,
+                edit: { changes: { [document.uri]: pinEdits } },
+                diagnostics
+            });
+        }
+
+        return actions;
+    }
+
+    private toRange(document: TextDocument, reference: FromReference): Range {
+        return Range.create(document.positionAt(reference.range!.start), document.positionAt(reference.range!.end));
+    }
+
+    /**
+     * The range of the reference without the quotes of a quoted scalar, so
+     * that replacing it keeps the quote style of the source.
+     */
+    private toValueRange(document: TextDocument, reference: FromReference): Range {
+        const range = this.toRange(document, reference);
+        const text = document.getText(range);
+        if (text.length >= 2 && /^["']/.test(text) && text.endsWith(text.charAt(0))) {
+            return Range.create(document.positionAt(reference.range!.start + 1), document.positionAt(reference.range!.end - 1));
+        }
+        return range;
+    }
+}
+
+function comparePositions(a: Position, b: Position): number {
+    return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
+
+function rangesIntersect(a: Range, b: Range): boolean {
+    return comparePositions(a.start, b.end) <= 0 && comparePositions(b.start, a.end) <= 0;
+}
+
+function rangesEqual(a: Range, b: Range): boolean {
+    return comparePositions(a.start, b.start) === 0 && comparePositions(a.end, b.end) === 0;
+}
@@ -1,18 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { spawn } from 'child_process';
 import { PolycrateVersionDiffProvider } from './versionDiffProvider';
 import { PolycrateHubIntegrationProvider } from './hubIntegrationProvider';
+import { PolycrateCliService } from './cliService';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { validateWorkspaceRequest } from './protocol';
+import { isBlockConfigFile } from './workspaceModel';
 
 export class PolycrateCommandProvider {
     private outputChannel: vscode.OutputChannel;
     private versionDiffProvider: PolycrateVersionDiffProvider;
     private hubIntegrationProvider: PolycrateHubIntegrationProvider;
+    private cli: PolycrateCliService;
+    private client: LanguageClient;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, cli: PolycrateCliService, client: LanguageClient) {
         this.outputChannel = vscode.window.createOutputChannel('Polycrate Commands');
-        this.versionDiffProvider = new PolycrateVersionDiffProvider(context);
-        this.hubIntegrationProvider = new PolycrateHubIntegrationProvider(context);
+        this.cli = cli;
+        this.client = client;
+        this.versionDiffProvider = new PolycrateVersionDiffProvider(context, cli);
+        this.hubIntegrationProvider = new PolycrateHubIntegrationProvider(context, cli);
     }
 
     public validateWorkspace = async (): Promise<void> => {
@@ -34,7 +41,16 @@ export class PolycrateCommandProvider {
         this.outputChannel.appendLine('Validating workspace...');
 
         try {
-            const result = await this.runPolycrateCommand(['workspace', 'inspect'], workspaceFolder.uri.fsPath);
+            // Validate every .poly file so the results show up in the Problems panel
+            const count = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Validating Polycrate files',
+                cancellable: true
+            }, (_progress, token) => this.client.sendRequest<number>(validateWorkspaceRequest, {}, token));
+            this.outputChannel.appendLine(`Validated ${count} Polycrate files`);
+            vscode.commands.executeCommand('workbench.actions.view.problems');
+
+            const result = await this.cli.run(['workspace', 'inspect'], { cwd: workspaceFolder.uri.fsPath });
             this.outputChannel.appendLine('Workspace validation completed successfully');
             this.outputChannel.appendLine(result);
             vscode.window.showInformationMessage('Workspace validation completed');
@@ -52,9 +68,7 @@ export class PolycrateCommandProvider {
         }
 
         const document = activeEditor.document;
-        const fileName = path.basename(document.fileName);
-        
-        if (fileName !== 'block.poly') {
+        if (!isBlockConfigFile(document.fileName)) {
             vscode.window.showErrorMessage('Current file is not a block.poly file');
             return;
         }
@@ -66,7 +80,7 @@ export class PolycrateCommandProvider {
         this.outputChannel.appendLine(`Validating block: ${blockName}...`);
 
         try {
-            const result = await this.runPolycrateCommand(['blocks', 'inspect', blockName], blockDir);
+            const result = await this.cli.run(['blocks', 'inspect', blockName], { cwd: blockDir });
             this.outputChannel.appendLine('Block validation completed successfully');
             this.outputChannel.appendLine(result);
             vscode.window.showInformationMessage(`Block ${blockName} validation completed`);
@@ -90,12 +104,15 @@ export class PolycrateCommandProvider {
         this.outputChannel.appendLine(`Searching for blocks: ${searchTerm}...`);
 
         try {
-            const result = await this.runPolycrateCommand(['blocks', 'search', searchTerm]);
-            this.outputChannel.appendLine('Block search completed');
-            this.outputChannel.appendLine(result);
+            const results = await this.cli.searchBlocks(searchTerm);
+            this.outputChannel.appendLine(`Block search completed: ${results.length} blocks found`);
             
-            // Parse the result and show in a quick pick
-            const blocks = this.parseBlockSearchResult(result);
+            // Show the results in a quick pick
+            const blocks: vscode.QuickPickItem[] = results.map(block => ({
+                label: block.name,
+                description: block.version,
+                detail: block.description
+            }));
             if (blocks.length > 0) {
                 const selected = await vscode.window.showQuickPick(blocks, {
                     placeHolder: 'Select a block to view details'
@@ -121,9 +138,7 @@ export class PolycrateCommandProvider {
         }
 
         const document = activeEditor.document;
-        const fileName = path.basename(document.fileName);
-        
-        if (fileName !== 'block.poly') {
+        if (!isBlockConfigFile(document.fileName)) {
             vscode.window.showErrorMessage('Current file is not a block.poly file');
             return;
         }
@@ -142,7 +157,7 @@ export class PolycrateCommandProvider {
             this.outputChannel.appendLine(`Fetching changelog for block: ${blockName}...`);
 
             try {
-                const result = await this.runPolycrateCommand(['blocks', 'inspect', blockName, '--changelog']);
+                const result = await this.cli.run(['blocks', 'inspect', blockName, '--changelog']);
                 this.outputChannel.appendLine('Changelog fetched successfully');
                 this.outputChannel.appendLine(result);
                 vscode.window.showInformationMessage(`Changelog for ${blockName} displayed in output`);
@@ -168,7 +183,7 @@ export class PolycrateCommandProvider {
         const document = activeEditor.document;
         const fileName = path.basename(document.fileName);
         
-        if (fileName === 'block.poly') {
+        if (isBlockConfigFile(document.fileName)) {
             // Extract block name from directory
             const blockDir = path.dirname(document.fileName);
             const blockName = path.basename(blockDir);
@@ -185,66 +200,9 @@ export class PolycrateCommandProvider {
         await this.hubIntegrationProvider.discoverBlocks();
     };
 
-    private async runPolycrateCommand(args: string[], cwd?: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const config = vscode.workspace.getConfiguration('polycrate');
-            const cliPath = config.get('cli.path', 'polycrate');
-            
-            const child = spawn(cliPath, args, { 
-                cwd: cwd || process.cwd(),
-                stdio: 'pipe'
-            });
-            
-            let stdout = '';
-            let stderr = '';
-            
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
-            
-            child.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
-            
-            child.on('close', (code) => {
-                if (code === 0) {
-                    resolve(stdout);
-                } else {
-                    reject(new Error(`Command failed with code ${code}: ${stderr}`));
-                }
-            });
-            
-            child.on('error', (error) => {
-                reject(error);
-            });
-        });
-    }
-
-    private parseBlockSearchResult(result: string): vscode.QuickPickItem[] {
-        const items: vscode.QuickPickItem[] = [];
-        
-        // Simple parsing - this would need to be adapted based on actual CLI output format
-        const lines = result.split('\n').filter(line => line.trim());
-        
-        for (const line of lines) {
-            if (line.includes('Name:') || line.includes('Block:')) {
-                const parts = line.split(':');
-                if (parts.length >= 2) {
-                    const name = parts[1].trim();
-                    items.push({
-                        label: name,
-                        description: line.trim()
-                    });
-                }
-            }
-        }
-        
-        return items;
-    }
-
     private async showBlockDetails(blockName: string): Promise<void> {
         try {
-            const result = await this.runPolycrateCommand(['blocks', 'inspect', blockName]);
+            const result = await this.cli.run(['blocks', 'inspect', blockName]);
             
             // Create a new untitled document with the block details
             const doc = await vscode.workspace.openTextDocument({
@@ -257,4 +215,4 @@ export class PolycrateCommandProvider {
             vscode.window.showErrorMessage(`Failed to get block details: ${error}`);
         }
     }
-}
\ No newline at end of file
+}
@@ -1,277 +1,543 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
+import { CancellationToken, CompletionItem, CompletionItemKind, CompletionList, Position, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { getLineText } from './documentText';
+import { BlockCandidate, PolycrateLanguageServer, VersionCandidate } from './languageServer';
+import { CursorContext, getCursorContext } from './cursorContext';
+import { YamlPath, findNamedItem, getNodeAtPath, getScalarValue, getSeqItems } from './yamlAst';
+import { findTemplateChainAtCursor, getTemplateValue, normalizeTemplateKey, templateRoots, toTemplateKey, workspaceConfigFields } from './templateExpressions';
+import { isBlockConfigFile } from './workspaceModel';
 
-export class PolycrateCompletionProvider implements vscode.CompletionItemProvider {
+interface FieldInfo {
+    name: string;
+    detail: string;
+    documentation: string;
+}
+
+// Root level workspace fields
+const workspaceFields: FieldInfo[] = [
+    { name: 'name', detail: 'Workspace name (required)', documentation: 'The name of the workspace' },
+    { name: 'description', detail: 'Workspace description', documentation: 'A description of the workspace' },
+    { name: 'organization', detail: 'Organization name (required)', documentation: 'The organization this workspace belongs to' },
+    { name: 'labels', detail: 'Workspace labels', documentation: 'Key-value pairs for labeling the workspace' },
+    { name: 'alias', detail: 'Workspace aliases', documentation: 'Alternative names for the workspace' },
+    { name: 'config', detail: 'Workspace configuration (optional)', documentation: 'Configuration settings for the workspace. CLI provides defaults if not specified.' },
+    { name: 'extraenv', detail: 'Extra environment variables', documentation: 'Additional environment variables' },
+    { name: 'extramounts', detail: 'Extra volume mounts', documentation: 'Additional volume mounts for containers' },
+    { name: 'events', detail: 'Event handlers', documentation: 'Event handling configuration' },
+    { name: 'dependencies', detail: 'Workspace dependencies', documentation: 'Dependencies required by this workspace' },
+    { name: 'sync', detail: 'Sync configuration', documentation: 'Git synchronization settings' },
+    { name: 'inventory', detail: 'Ansible inventory', documentation: 'Ansible inventory configuration' },
+    { name: 'kubeconfig', detail: 'Kubernetes config', documentation: 'Kubernetes configuration settings' },
+    { name: 'registry', detail: 'Container registry', documentation: 'Container registry configuration' },
+    { name: 'blocks', detail: 'Workspace blocks', documentation: 'Blocks defined in this workspace' },
+    { name: 'workflows', detail: 'Workspace workflows', documentation: 'Workflows defined in this workspace' }
+];
+
+// Workspace config section fields
+const configFields: FieldInfo[] = [
+    { name: 'image', detail: 'Container image configuration', documentation: 'Container image settings' },
+    { name: 'blocksroot', detail: 'Blocks directory (default: blocks)', documentation: 'Directory containing blocks' },
+    { name: 'logsroot', detail: 'Logs directory (default: logs)', documentation: 'Directory for storing logs' },
+    { name: 'blocksconfig', detail: 'Block config filename', documentation: 'Filename for block configuration' },
+    { name: 'workspaceconfig', detail: 'Workspace config filename', documentation: 'Filename for workspace configuration' },
+    { name: 'workflowsroot', detail: 'Workflows directory', documentation: 'Directory containing workflows' },
+    { name: 'artifactsroot', detail: 'Artifacts directory', documentation: 'Directory for build artifacts' },
+    { name: 'containerroot', detail: 'Container root path', documentation: 'Root path inside container' },
+    { name: 'sshprivatekey', detail: 'SSH private key file', documentation: 'SSH private key filename' },
+    { name: 'sshpublickey', detail: 'SSH public key file', documentation: 'SSH public key filename' },
+    { name: 'remoteroot', detail: 'Remote root path', documentation: 'Root path on remote systems' },
+    { name: 'dockerfile', detail: 'Dockerfile path', documentation: 'Path to custom Dockerfile' },
+    { name: 'globals', detail: 'Global variables', documentation: 'Global variables for the workspace' }
+];
+
+const imageFields: FieldInfo[] = [
+    { name: 'reference', detail: 'Image reference', documentation: 'Container image that actions run in, without the tag' },
+    { name: 'version', detail: 'Image version', documentation: 'Tag of the container image' }
+];
+
+const registryFields: FieldInfo[] = [
+    { name: 'url', detail: 'Registry URL', documentation: 'Registry that blocks are pulled from and pushed to' },
+    { name: 'endpoint', detail: 'Registry API endpoint', documentation: 'API endpoint of the registry' },
+    { name: 'base_image', detail: 'Base image', documentation: 'Base image for images built in this workspace' },
+    { name: 'username', detail: 'Registry username', documentation: 'User to log in to the registry with' },
+    { name: 'password', detail: 'Registry password', documentation: 'Password to log in to the registry with. Use a template expression instead of a plaintext value' }
+];
+
+// `inventory`, `kubeconfig`, `workdir` and `artifacts`
+const locationFields: FieldInfo[] = [
+    { name: 'path', detail: 'File path', documentation: 'Path relative to the workspace root' },
+    { name: 'from', detail: 'Source block', documentation: 'Block whose artifacts provide the file' },
+    { name: 'filename', detail: 'File name', documentation: 'Name of the file in the artifacts directory' },
+    { name: 'localpath', detail: 'Local path', documentation: 'Path on the host' },
+    { name: 'containerpath', detail: 'Container path', documentation: 'Path inside the action container' }
+];
+
+// Root level block fields
+const blockFields: FieldInfo[] = [
+    { name: 'name', detail: 'Block name (required)', documentation: 'The name of the block' },
+    { name: 'display_name', detail: 'Display name', documentation: 'Human-readable name for the block' },
+    { name: 'description', detail: 'Block description', documentation: 'A description of the block' },
+    { name: 'kind', detail: 'Block kind (optional)', documentation: 'The type of block (generic, k8sapp, etc.)' },
+    { name: 'type', detail: 'Block type', documentation: 'The application type (db, kv, mq, etc.)' },
+    { name: 'flavor', detail: 'Block flavor', documentation: 'Specific flavor or variant' },
+    { name: 'version', detail: 'Block version', documentation: 'Version of the block' },
+    { name: 'labels', detail: 'Block labels', documentation: 'Key-value pairs for labeling' },
+    { name: 'alias', detail: 'Block aliases', documentation: 'Alternative names for the block' },
+    { name: 'icon_url', detail: 'Icon URL', documentation: 'URL to block icon' },
+    { name: 'git_repository_url', detail: 'Git repository URL', documentation: 'URL to the git repository' },
+    { name: 'license', detail: 'License', documentation: 'License identifier' },
+    { name: 'license_url', detail: 'License URL', documentation: 'URL to license text' },
+    { name: 'website_url', detail: 'Website URL', documentation: 'URL to project website' },
+    { name: 'documentation_url', detail: 'Documentation URL', documentation: 'URL to documentation' },
+    { name: 'releases_url', detail: 'Releases URL', documentation: 'URL to releases page' },
+    { name: 'config', detail: 'Block configuration', documentation: 'Configuration settings for the block' },
+    { name: 'actions', detail: 'Block actions', documentation: 'Actions available for this block' },
+    { name: 'supports_ha', detail: 'High availability support', documentation: 'Whether the block supports high availability' },
+    { name: 'template', detail: 'Template block', documentation: 'Whether this is a template block' },
+    { name: 'from', detail: 'Base block', documentation: 'Base block to inherit from' },
+    { name: 'workdir', detail: 'Working directory', documentation: 'Working directory configuration' },
+    { name: 'inventory', detail: 'Inventory configuration', documentation: 'Ansible inventory settings' },
+    { name: 'kubeconfig', detail: 'Kubeconfig settings', documentation: 'Kubernetes configuration' },
+    { name: 'artifacts', detail: 'Artifacts configuration', documentation: 'Build artifacts settings' }
+];
+
+const actionFields: FieldInfo[] = [
+    { name: 'name', detail: 'Action name (required)', documentation: 'The name the action is run by' },
+    { name: 'description', detail: 'Action description', documentation: 'A description of the action' },
+    { name: 'labels', detail: 'Action labels', documentation: 'Key-value pairs for labeling' },
+    { name: 'alias', detail: 'Action aliases', documentation: 'Alternative names for the action' },
+    { name: 'script', detail: 'Script', documentation: 'Commands the action runs, as a string or a list of lines' },
+    { name: 'playbook', detail: 'Ansible playbook', documentation: 'Playbook the action runs instead of a script' },
+    { name: 'interactive', detail: 'Interactive', documentation: 'Whether the action asks for input before it runs' },
+    { name: 'prompt', detail: 'Prompt', documentation: 'Question shown before an interactive action runs' },
+    { name: 'config', detail: 'Action configuration', documentation: 'Configuration settings for the action' }
+];
+
+const promptFields: FieldInfo[] = [
+    { name: 'message', detail: 'Prompt message', documentation: 'Question shown to the user. The answer is available as .Prompt.Input' }
+];
+
+const workflowFields: FieldInfo[] = [
+    { name: 'name', detail: 'Workflow name (required)', documentation: 'The name the workflow is run by' },
+    { name: 'description', detail: 'Workflow description', documentation: 'A description of the workflow' },
+    { name: 'labels', detail: 'Workflow labels', documentation: 'Key-value pairs for labeling' },
+    { name: 'alias', detail: 'Workflow aliases', documentation: 'Alternative names for the workflow' },
+    { name: 'steps', detail: 'Workflow steps', documentation: 'Steps the workflow runs in order' }
+];
+
+const stepFields: FieldInfo[] = [
+    { name: 'name', detail: 'Step name (required)', documentation: 'The name of the step' },
+    { name: 'description', detail: 'Step description', documentation: 'A description of the step' },
+    { name: 'labels', detail: 'Step labels', documentation: 'Key-value pairs for labeling' },
+    { name: 'block', detail: 'Block', documentation: 'Block whose action the step runs' },
+    { name: 'action', detail: 'Action', documentation: 'Action of the block that the step runs' },
+    { name: 'workflow', detail: 'Workflow', documentation: 'Workflow the step runs instead of an action' },
+    { name: 'script', detail: 'Script', documentation: 'Commands the step runs instead of an action' },
+    { name: 'prompt', detail: 'Prompt', documentation: 'Question shown before the step runs' }
+];
+
+// Field sets by the YAML path of the map at the cursor; `#` stands for any list index
+const blockFieldSets: { [yamlPath: string]: FieldInfo[] } = {
+    '': blockFields,
+    'actions.#': actionFields,
+    'actions.#.prompt': promptFields,
+    'inventory': locationFields,
+    'kubeconfig': locationFields,
+    'workdir': locationFields,
+    'artifacts': locationFields
+};
+
+const workspaceFieldSets: { [yamlPath: string]: FieldInfo[] } = {
+    '': workspaceFields,
+    'config': configFields,
+    'config.image': imageFields,
+    'registry': registryFields,
+    'inventory': locationFields,
+    'kubeconfig': locationFields,
+    'workflows.#': workflowFields,
+    'workflows.#.steps.#': stepFields,
+    'workflows.#.steps.#.prompt': promptFields
+};
+for (const [blockPath, fields] of Object.entries(blockFieldSets)) {
+    workspaceFieldSets[blockPath ? `blocks.#.${blockPath}` : 'blocks.#'] = fields;
+}
+
+// Block kinds
+const blockKinds: FieldInfo[] = [
+    { name: 'generic', detail: 'Generic block', documentation: 'Generic application block' },
+    { name: 'k8sapp', detail: 'Kubernetes app', documentation: 'Kubernetes application block' },
+    { name: 'k8scluster', detail: 'Kubernetes cluster', documentation: 'Kubernetes cluster block' },
+    { name: 'db', detail: 'Database', documentation: 'Database block' },
+    { name: 'kv', detail: 'Key-value store', documentation: 'Key-value store block' },
+    { name: 'mq', detail: 'Message queue', documentation: 'Message queue block' },
+    { name: 'app', detail: 'Application', documentation: 'Application block' }
+];
+
+const blockSourceLabels: { [source in BlockCandidate['source']]: string } = {
+    local: 'Local block',
+    workspace: 'Used in this workspace',
+    registry: 'Registry block'
+};
+
+const versionSourceLabels: { [source in VersionCandidate['source']]: string } = {
+    changelog: 'Local block',
+    snapshot: 'Workspace snapshot',
+    registry: 'Registry'
+};
+
+// Registry blocks are only searched for once this much of a name is typed
+const minRegistryQueryLength = 2;
+
+// Details of the template roots; also shown for fields whose value is not known yet
+const templateRootDetails: { [root: string]: string } = {
+    Block: 'The block the expression belongs to',
+    Workspace: 'The workspace',
+    Action: 'The running action',
+    Prompt: 'The answer to the action prompt'
+};
+
+export class PolycrateCompletionProvider {
+
+    constructor(private languageServer: PolycrateLanguageServer) {}
     
-    public provideCompletionItems(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken,
-        context: vscode.CompletionContext
-    ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
-        
-        const line = document.lineAt(position);
-        const lineText = line.text;
-        const linePrefix = lineText.substring(0, position.character);
+    public async provideCompletionItems(document: TextDocument, position: Position, token?: CancellationToken): Promise<CompletionItem[] | CompletionList> {
         
         // Determine context based on file type
-        const fileName = path.basename(document.fileName);
+        const filePath = URI.parse(document.uri).fsPath;
+        const fileName = path.basename(filePath);
         const isWorkspace = fileName === 'workspace.poly';
-        const isBlock = fileName === 'block.poly';
+        const isChangelog = fileName === 'CHANGELOG.poly';
+        
+        if (isChangelog) {
+            const linePrefix = getLineText(document, position.line).substring(0, position.character);
+            return this.getChangelogCompletions(linePrefix);
+        }
+        if (!isWorkspace && !isBlockConfigFile(filePath, this.languageServer.getWorkspaceContext(document).model)) {
+            return [];
+        }
         
-        if (isWorkspace) {
-            return this.getWorkspaceCompletions(linePrefix, position);
-        } else if (isBlock) {
-            return this.getBlockCompletions(linePrefix, position);
+        // Fields of a template expression inside {{ }}
+        const chain = findTemplateChainAtCursor(getLineText(document, position.line).substring(0, position.character));
+        if (chain) {
+            return this.getTemplateCompletions(document, position, chain.segments, chain.partial);
         }
         
-        return [];
+        // Completions depend on where in the YAML structure the cursor is
+        const context = getCursorContext(document.getText(), document.offsetAt(position));
+        if (!context) {
+            return [];
+        }
+        const isBlockLevel = isWorkspace ? toPathPattern(context.path) === 'blocks.#' : context.path.length === 0;
+        if (isBlockLevel && context.valueOf === 'from') {
+            return this.getFromCompletions(document, position, context, token);
+        }
+        return isWorkspace ? this.getWorkspaceCompletions(document, context) : this.getBlockCompletions(context);
     }
 
-    private getWorkspaceCompletions(linePrefix: string, position: vscode.Position): vscode.CompletionItem[] {
-        const completions: vscode.CompletionItem[] = [];
+    private getWorkspaceCompletions(document: TextDocument, context: CursorContext): CompletionItem[] {
+        const yamlPath = context.path;
         
-        // Root level workspace fields
-        const workspaceFields = [
-            { name: 'name', detail: 'Workspace name (required)', documentation: 'The name of the workspace' },
-            { name: 'description', detail: 'Workspace description', documentation: 'A description of the workspace' },
-            { name: 'organization', detail: 'Organization name (required)', documentation: 'The organization this workspace belongs to' },
-            { name: 'labels', detail: 'Workspace labels', documentation: 'Key-value pairs for labeling the workspace' },
-            { name: 'alias', detail: 'Workspace aliases', documentation: 'Alternative names for the workspace' },
-            { name: 'config', detail: 'Workspace configuration (optional)', documentation: 'Configuration settings for the workspace. CLI provides defaults if not specified.' },
-            { name: 'extraenv', detail: 'Extra environment variables', documentation: 'Additional environment variables' },
-            { name: 'extramounts', detail: 'Extra volume mounts', documentation: 'Additional volume mounts for containers' },
-            { name: 'events', detail: 'Event handlers', documentation: 'Event handling configuration' },
-            { name: 'dependencies', detail: 'Workspace dependencies', documentation: 'Dependencies required by this workspace' },
-            { name: 'sync', detail: 'Sync configuration', documentation: 'Git synchronization settings' },
-            { name: 'inventory', detail: 'Ansible inventory', documentation: 'Ansible inventory configuration' },
-            { name: 'kubeconfig', detail: 'Kubernetes config', documentation: 'Kubernetes configuration settings' },
-            { name: 'registry', detail: 'Container registry', documentation: 'Container registry configuration' },
-            { name: 'blocks', detail: 'Workspace blocks', documentation: 'Blocks defined in this workspace' },
-            { name: 'workflows', detail: 'Workspace workflows', documentation: 'Workflows defined in this workspace' }
-        ];
+        // Config of a block entry: offer the keys the block declares
+        if (yamlPath[0] === 'blocks' && typeof yamlPath[1] === 'number' && yamlPath[2] === 'config') {
+            return context.valueOf ? [] : this.getBlockConfigCompletions(document, context);
+        }
         
-        // Config section fields
-        const configFields = [
-            { name: 'image', detail: 'Container image configuration', documentation: 'Container image settings' },
-            { name: 'blocksroot', detail: 'Blocks directory (default: blocks)', documentation: 'Directory containing blocks' },
-            { name: 'logsroot', detail: 'Logs directory (default: logs)', documentation: 'Directory for storing logs' },
-            { name: 'blocksconfig', detail: 'Block config filename', documentation: 'Filename for block configuration' },
-            { name: 'workspaceconfig', detail: 'Workspace config filename', documentation: 'Filename for workspace configuration' },
-            { name: 'workflowsroot', detail: 'Workflows directory', documentation: 'Directory containing workflows' },
-            { name: 'artifactsroot', detail: 'Artifacts directory', documentation: 'Directory for build artifacts' },
-            { name: 'containerroot', detail: 'Container root path', documentation: 'Root path inside container' },
-            { name: 'sshprivatekey', detail: 'SSH private key file', documentation: 'SSH private key filename' },
-            { name: 'sshpublickey', detail: 'SSH public key file', documentation: 'SSH public key filename' },
-            { name: 'remoteroot', detail: 'Remote root path', documentation: 'Root path on remote systems' },
-            { name: 'dockerfile', detail: 'Dockerfile path', documentation: 'Path to custom Dockerfile' },
-            { name: 'globals', detail: 'Global variables', documentation: 'Global variables for the workspace' }
-        ];
+        if (context.valueOf) {
+            const pattern = toPathPattern(yamlPath);
+            if (pattern === 'workflows.#.steps.#' && context.valueOf === 'block') {
+                return this.getStepBlockCompletions(document, context);
+            }
+            if (pattern === 'workflows.#.steps.#' && context.valueOf === 'action') {
+                return this.getStepActionCompletions(document, context);
+            }
+            return pattern === 'blocks.#' && context.valueOf === 'kind' ? this.toValueCompletions(blockKinds) : [];
+        }
         
-        // Check if we're in a config section
-        const isInConfig = this.isInSection(linePrefix, 'config');
+        return this.toFieldCompletions(workspaceFieldSets[toPathPattern(yamlPath)] || [], context.existingKeys);
+    }
+
+    private getBlockCompletions(context: CursorContext): CompletionItem[] {
+        // Check if we're completing a kind value
+        if (context.valueOf) {
+            return context.path.length === 0 && context.valueOf === 'kind' ? this.toValueCompletions(blockKinds) : [];
+        }
         
-        if (isInConfig) {
-            // Fall back to general config fields for now
-            // TODO: Implement block config completions
-            configFields.forEach(field => {
-                const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
-                item.detail = field.detail;
-                item.documentation = field.documentation;
-                item.insertText = `${field.name}: `;
-                completions.push(item);
-            });
-        } else {
-            workspaceFields.forEach(field => {
-                const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
-                item.detail = field.detail;
-                item.documentation = field.documentation;
-                item.insertText = `${field.name}: `;
-                completions.push(item);
-            });
+        return this.toFieldCompletions(blockFieldSets[toPathPattern(context.path)] || [], context.existingKeys);
+    }
+
+    /**
+     * Blocks a workflow step can run: the blocks of the workspace and the
+     * block directories below blocksroot.
+     */
+    private getStepBlockCompletions(document: TextDocument, context: CursorContext): CompletionItem[] {
+        const completions: CompletionItem[] = [];
+        const { resolver } = this.languageServer.getWorkspaceContext(document);
+        const addBlock = (name: string, detail: string, description: unknown) => {
+            if (completions.some(item => item.label === name)) {
+                return;
+            }
+            const item: CompletionItem = { label: name, kind: CompletionItemKind.Module, detail };
+            if (typeof description === 'string') {
+                item.documentation = description;
+            }
+            completions.push(item);
+        };
+        
+        for (const blockNode of getSeqItems(context.ast.contents, ['blocks'])) {
+            const entry: any = blockNode.toJSON() || {};
+            if (typeof entry.name === 'string') {
+                addBlock(entry.name, 'Workspace block', entry.description);
+            }
+        }
+        if (resolver) {
+            for (const block of resolver.listLocalBlockFiles()) {
+                const blockConfig = resolver.loadBlock(block.directory) || {};
+                addBlock(block.name || block.directory, 'Local block', blockConfig.description);
+            }
         }
         
         return completions;
     }
 
-    private getBlockCompletions(linePrefix: string, position: vscode.Position): vscode.CompletionItem[] {
-        const completions: vscode.CompletionItem[] = [];
+    /**
+     * Actions of the block a workflow step runs, including the actions it
+     * inherits from its local block and `from` parents.
+     */
+    private getStepActionCompletions(document: TextDocument, context: CursorContext): CompletionItem[] {
+        const blockName = getScalarValue(getNodeAtPath(context.ast.contents, context.path), 'block');
+        if (!blockName) {
+            return [];
+        }
         
-        // Root level block fields
-        const blockFields = [
-            { name: 'name', detail: 'Block name (required)', documentation: 'The name of the block' },
-            { name: 'display_name', detail: 'Display name', documentation: 'Human-readable name for the block' },
-            { name: 'description', detail: 'Block description', documentation: 'A description of the block' },
-            { name: 'kind', detail: 'Block kind (optional)', documentation: 'The type of block (generic, k8sapp, etc.)' },
-            { name: 'type', detail: 'Block type', documentation: 'The application type (db, kv, mq, etc.)' },
-            { name: 'flavor', detail: 'Block flavor', documentation: 'Specific flavor or variant' },
-            { name: 'version', detail: 'Block version', documentation: 'Version of the block' },
-            { name: 'labels', detail: 'Block labels', documentation: 'Key-value pairs for labeling' },
-            { name: 'alias', detail: 'Block aliases', documentation: 'Alternative names for the block' },
-            { name: 'icon_url', detail: 'Icon URL', documentation: 'URL to block icon' },
-            { name: 'git_repository_url', detail: 'Git repository URL', documentation: 'URL to the git repository' },
-            { name: 'license', detail: 'License', documentation: 'License identifier' },
-            { name: 'license_url', detail: 'License URL', documentation: 'URL to license text' },
-            { name: 'website_url', detail: 'Website URL', documentation: 'URL to project website' },
-            { name: 'documentation_url', detail: 'Documentation URL', documentation: 'URL to documentation' },
-            { name: 'releases_url', detail: 'Releases URL', documentation: 'URL to releases page' },
-            { name: 'config', detail: 'Block configuration', documentation: 'Configuration settings for the block' },
-            { name: 'actions', detail: 'Block actions', documentation: 'Actions available for this block' },
-            { name: 'supports_ha', detail: 'High availability support', documentation: 'Whether the block supports high availability' },
-            { name: 'template', detail: 'Template block', documentation: 'Whether this is a template block' },
-            { name: 'from', detail: 'Base block', documentation: 'Base block to inherit from' },
-            { name: 'workdir', detail: 'Working directory', documentation: 'Working directory configuration' },
-            { name: 'inventory', detail: 'Inventory configuration', documentation: 'Ansible inventory settings' },
-            { name: 'kubeconfig', detail: 'Kubeconfig settings', documentation: 'Kubernetes configuration' },
-            { name: 'artifacts', detail: 'Artifacts configuration', documentation: 'Build artifacts settings' }
-        ];
+        const { resolver } = this.languageServer.getWorkspaceContext(document);
+        const blockNode = findNamedItem(context.ast.contents, 'blocks', blockName);
+        const entry: any = blockNode ? blockNode.toJSON() : { name: blockName };
+        const actions: any[] = resolver ? [...resolver.getActions(entry).actions.values()] : (Array.isArray(entry.actions) ? entry.actions : []);
         
-        // Block kinds
-        const blockKinds = [
-            { name: 'generic', detail: 'Generic block', documentation: 'Generic application block' },
-            { name: 'k8sapp', detail: 'Kubernetes app', documentation: 'Kubernetes application block' },
-            { name: 'k8scluster', detail: 'Kubernetes cluster', documentation: 'Kubernetes cluster block' },
-            { name: 'db', detail: 'Database', documentation: 'Database block' },
-            { name: 'kv', detail: 'Key-value store', documentation: 'Key-value store block' },
-            { name: 'mq', detail: 'Message queue', documentation: 'Message queue block' },
-            { name: 'app', detail: 'Application', documentation: 'Application block' }
-        ];
+        return actions.filter(action => action && typeof action.name === 'string').map(action => {
+            const item: CompletionItem = { label: action.name, kind: CompletionItemKind.Function };
+            const description = typeof action.description === 'string' ? action.description : 'Action';
+            item.detail = action.interactive === true ? `${description} (interactive)` : description;
+            return item;
+        });
+    }
+
+    /**
+     * Block references for `from`, or the versions of the referenced block
+     * once the `:` separator is typed.
+     */
+    private async getFromCompletions(document: TextDocument, position: Position, context: CursorContext, token?: CancellationToken): Promise<CompletionList> {
+        // Quotes are not part of the reference
+        const typed = context.typed.replace(/^["']/, '');
+        const offset = document.offsetAt(position);
+        const separator = typed.lastIndexOf(':');
         
-        // Check if we're completing a kind value
-        if (linePrefix.includes('kind:')) {
-            blockKinds.forEach(kind => {
-                const item = new vscode.CompletionItem(kind.name, vscode.CompletionItemKind.Value);
-                item.detail = kind.detail;
-                item.documentation = kind.documentation;
-                completions.push(item);
-            });
-        } else {
-            blockFields.forEach(field => {
-                const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
-                item.detail = field.detail;
-                item.documentation = field.documentation;
-                item.insertText = `${field.name}: `;
-                completions.push(item);
-            });
+        if (separator > typed.lastIndexOf('/')) {
+            const range = Range.create(document.positionAt(offset - (typed.length - separator - 1)), position);
+            const blockName = getScalarValue(getNodeAtPath(context.ast.contents, context.path), 'name') || 'unnamed';
+            const candidates = await this.languageServer.getVersionCandidates(document, { blockName, from: typed, range: undefined }, token);
+            // Candidates are sorted newest first, which the client must not re-sort
+            const items = candidates.map((candidate, i): CompletionItem => ({
+                label: candidate.version,
+                kind: CompletionItemKind.Value,
+                detail: candidate.summary ? `${versionSourceLabels[candidate.source]}: ${candidate.summary}` : versionSourceLabels[candidate.source],
+                documentation: candidate.summary,
+                sortText: String(i).padStart(4, '0'),
+                textEdit: TextEdit.replace(range, candidate.version)
+            }));
+            return { isIncomplete: false, items };
         }
         
-        return completions;
+        // The list changes as more of the name is typed, so the client asks again
+        const name = typed.substring(typed.lastIndexOf('/') + 1);
+        const range = Range.create(document.positionAt(offset - typed.length), position);
+        const candidates = await this.languageServer.getBlockCandidates(document, typed, name.length >= minRegistryQueryLength, token);
+        const items = candidates.map((candidate): CompletionItem => ({
+            label: candidate.name,
+            kind: CompletionItemKind.Module,
+            detail: blockSourceLabels[candidate.source],
+            documentation: candidate.description,
+            sortText: `${Object.keys(blockSourceLabels).indexOf(candidate.source)}${candidate.name}`,
+            textEdit: TextEdit.replace(range, candidate.name)
+        }));
+        return { isIncomplete: true, items };
     }
 
-    private getBlockConfigCompletionsSync(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
-        const completions: vscode.CompletionItem[] = [];
+    /**
+     * Fields that can follow `segments` in a template expression: the roots,
+     * their fields, and below `.Block` and `.Workspace` the keys of the
+     * resolved block and workspace.poly in the casing templates use. Each
+     * item shows its current value.
+     */
+    private getTemplateCompletions(document: TextDocument, position: Position, segments: string[], partial: string): CompletionItem[] {
+        const completions: CompletionItem[] = [];
         
         try {
-            // Check if we're in a block config section
-            const blockInfo = this.getBlockContextAtPosition(document, position);
-            if (!blockInfo) {
+            const context = this.languageServer.getTemplateContext(document);
+            const scope = context.scopeAt(document.offsetAt(position));
+            const range = Range.create(Position.create(position.line, position.character - partial.length), position);
+            const addField = (name: string, detail: string) => {
+                // Declared keys that match a known field, e.g. `globals` and `Globals`, are offered once
+                if (completions.some(item => normalizeTemplateKey(item.label) === normalizeTemplateKey(name))) {
+                    return;
+                }
+                completions.push({ label: name, kind: CompletionItemKind.Field, detail, textEdit: TextEdit.replace(range, name) });
+            };
+            
+            if (segments.length === 0) {
+                Object.keys(templateRoots)
+                    .filter(root => root !== 'Block' || scope.hasBlock)
+                    .forEach(root => addField(root, templateRootDetails[root]));
                 return completions;
             }
             
-            // Load the block.poly file
-            const blockConfig = this.loadBlockConfigSync(blockInfo.blockName, document.uri.fsPath);
-            if (!blockConfig || !blockConfig.config) {
+            const [root, ...fieldPath] = segments;
+            if (!templateRoots[root]) {
+                return completions;
+            }
+            // .Action and .Prompt are only known when an action runs
+            const base = root === 'Block' ? scope.block : root === 'Workspace' ? context.workspace : undefined;
+            const describe = (value: unknown) => base === undefined ? templateRootDetails[root] : describeTemplateValue(value);
+            if (fieldPath.length === 0) {
+                templateRoots[root].forEach(field => addField(field, describe(getTemplateValue(base, [field]))));
                 return completions;
             }
             
-            // Generate completions from block config
-            this.generateConfigCompletions(blockConfig.config, completions);
-            
+            const current = getTemplateValue(base, fieldPath);
+            if (root === 'Workspace' && fieldPath.length === 1 && normalizeTemplateKey(fieldPath[0]) === 'config') {
+                // Omitted fields are filled with defaults by the CLI
+                workspaceConfigFields.forEach(field => {
+                    const value = getTemplateValue(current, [field]);
+                    addField(field, value === undefined ? 'CLI default' : describe(value));
+                });
+            }
+            if (current && typeof current === 'object' && !Array.isArray(current)) {
+                Object.entries(current).forEach(([key, value]) => addField(toTemplateKey(key), describe(value)));
+            }
         } catch (error) {
-            console.error('Error generating block config completions:', error);
+            console.error('Error generating template completions:', error);
         }
         
         return completions;
     }
 
-    private getBlockContextAtPosition(document: vscode.TextDocument, position: vscode.Position): { blockName: string; isInConfig: boolean } | null {
-        const text = document.getText();
-        let currentBlockName: string | null = null;
-        let isInConfig = false;
+    private toFieldCompletions(fields: FieldInfo[], existingKeys: string[]): CompletionItem[] {
+        // Keys already present in the map are not offered again
+        return fields.filter(field => !existingKeys.includes(field.name)).map(field => {
+            const item: CompletionItem = { label: field.name, kind: CompletionItemKind.Property };
+            item.detail = field.detail;
+            item.documentation = field.documentation;
+            item.insertText = `${field.name}: `;
+            return item;
+        });
+    }
+
+    private toValueCompletions(values: FieldInfo[]): CompletionItem[] {
+        return values.map(value => {
+            const item: CompletionItem = { label: value.name, kind: CompletionItemKind.Value };
+            item.detail = value.detail;
+            item.documentation = value.documentation;
+            return item;
+        });
+    }
+
+    private getChangelogCompletions(linePrefix: string): CompletionItem[] {
+        const completions: CompletionItem[] = [];
         
-        // Parse the document to find which block we're in
-        const lines = text.split('\n');
-        let blockIndent = -1;
-        let configIndent = -1;
+        // Changelog entry fields
+        const entryFields = [
+            { name: 'version', detail: 'Entry version (required)', documentation: 'Semantic version of this release, e.g. "1.2.3". Entries are ordered newest first.' },
+            { name: 'date', detail: 'Release date', documentation: 'ISO 8601 date, e.g. "2024-01-15" or "2024-01-15T10:00:00Z"' },
+            { name: 'type', detail: 'Change type', documentation: 'Kind of change (feat, fix, docs, ...)' },
+            { name: 'description', detail: 'Short summary', documentation: 'One-line summary of the release' },
+            { name: 'message', detail: 'Detailed message', documentation: 'Longer description of the changes' },
+            { name: 'email', detail: 'Author email', documentation: 'Contact of the author of this release' },
+            { name: 'changes', detail: 'Change list', documentation: 'List of individual changes (added, changed, fixed, ...)' }
+        ];
         
-        for (let i = 0; i <= position.line; i++) {
-            const line = lines[i];
-            const trimmedLine = line.trim();
-            const lineIndent = line.length - line.trimStart().length;
-            
-            // Check if we're starting a new block
-            if (trimmedLine.startsWith('- name:')) {
-                const nameMatch = trimmedLine.match(/- name:\s*(.+)/);
-                if (nameMatch) {
-                    currentBlockName = nameMatch[1].replace(/['"]/g, '');
-                    blockIndent = lineIndent;
-                    isInConfig = false;
-                    configIndent = -1;
-                }
-            }
-            // Check if we're in a config section
-            else if (currentBlockName && trimmedLine === 'config:' && lineIndent > blockIndent) {
-                isInConfig = true;
-                configIndent = lineIndent;
-            }
-            // Check if we've left the config section
-            else if (isInConfig && lineIndent <= configIndent && trimmedLine !== '') {
-                isInConfig = false;
-            }
-            // Check if we've left the current block
-            else if (currentBlockName && lineIndent <= blockIndent && trimmedLine !== '' && !trimmedLine.startsWith('- name:')) {
-                currentBlockName = null;
-                isInConfig = false;
-            }
-        }
+        // Change types
+        const changeTypes = [
+            { name: 'feat', detail: 'Feature', documentation: 'A new feature' },
+            { name: 'fix', detail: 'Bug fix', documentation: 'A bug fix' },
+            { name: 'docs', detail: 'Documentation', documentation: 'Documentation only changes' },
+            { name: 'style', detail: 'Style', documentation: 'Changes that do not affect the meaning of the code' },
+            { name: 'refactor', detail: 'Refactoring', documentation: 'A code change that neither fixes a bug nor adds a feature' },
+            { name: 'perf', detail: 'Performance', documentation: 'A code change that improves performance' },
+            { name: 'test', detail: 'Tests', documentation: 'Adding or correcting tests' },
+            { name: 'build', detail: 'Build', documentation: 'Changes to the build system or dependencies' },
+            { name: 'ci', detail: 'CI', documentation: 'Changes to CI configuration' },
+            { name: 'chore', detail: 'Chore', documentation: 'Other changes that do not modify the block' },
+            { name: 'revert', detail: 'Revert', documentation: 'Reverts a previous change' },
+            { name: 'breaking', detail: 'Breaking change', documentation: 'A change that breaks compatibility' },
+            { name: 'security', detail: 'Security', documentation: 'A security fix' }
+        ];
         
-        if (currentBlockName && isInConfig) {
-            return { blockName: currentBlockName, isInConfig: true };
+        // Check if we're completing a type value
+        if (linePrefix.includes('type:')) {
+            changeTypes.forEach(type => {
+                const item: CompletionItem = { label: type.name, kind: CompletionItemKind.Value };
+                item.detail = type.detail;
+                item.documentation = type.documentation;
+                completions.push(item);
+            });
+        } else {
+            entryFields.forEach(field => {
+                const item: CompletionItem = { label: field.name, kind: CompletionItemKind.Property };
+                item.detail = field.detail;
+                item.documentation = field.documentation;
+                item.insertText = `${field.name}: `;
+                completions.push(item);
+            });
         }
         
-        return null;
+        return completions;
     }
 
-    private loadBlockConfigSync(blockName: string, workspaceFilePath: string): any {
+    /**
+     * Keys of the config that the block of a workspace entry declares (its
+     * local block config and `from` parents), at the nesting level of the
+     * cursor below `blocks[].config`.
+     */
+    private getBlockConfigCompletions(document: TextDocument, context: CursorContext): CompletionItem[] {
+        const completions: CompletionItem[] = [];
+        
         try {
-            const workspaceDir = path.dirname(workspaceFilePath);
-            const blockDir = path.join(workspaceDir, 'blocks', blockName);
-            const blockPolyPath = path.join(blockDir, 'block.poly');
-            
-            // Try to read the block.poly file
-            const fs = require('fs');
-            if (!fs.existsSync(blockPolyPath)) {
-                return null;
+            const entryNode = getNodeAtPath(context.ast.contents, context.path.slice(0, 2));
+            const entry: any = entryNode ? entryNode.toJSON() : undefined;
+            const { resolver } = this.languageServer.getWorkspaceContext(document);
+            if (!resolver || !entry || typeof entry.name !== 'string') {
+                return completions;
             }
             
-            const blockContent = fs.readFileSync(blockPolyPath, 'utf8');
-            
-            // Parse YAML
-            let yaml;
-            try {
-                yaml = require('yaml');
-            } catch (requireError) {
-                return null;
+            let section = resolver.getDeclaredConfig(entry);
+            for (const key of context.path.slice(3)) {
+                section = section && typeof section === 'object' ? section[key] : undefined;
             }
             
-            return yaml.parse(blockContent);
+            // Generate completions from block config
+            this.generateConfigCompletions(section, completions, context.existingKeys);
             
         } catch (error) {
-            console.error('Error loading block config:', error);
-            return null;
+            console.error('Error generating block config completions:', error);
         }
+        
+        return completions;
     }
 
-    private generateConfigCompletions(config: any, completions: vscode.CompletionItem[], prefix: string = ''): void {
-        if (typeof config === 'object' && config !== null) {
+    private generateConfigCompletions(config: any, completions: CompletionItem[], existingKeys: string[]): void {
+        if (typeof config === 'object' && config !== null && !Array.isArray(config)) {
             for (const [key, value] of Object.entries(config)) {
-                const fullKey = prefix ? `${prefix}.${key}` : key;
+                if (existingKeys.includes(key)) {
+                    continue;
+                }
                 
-                let item: vscode.CompletionItem;
+                let item: CompletionItem;
                 
                 if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
                     // Nested object
-                    item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                    item = { label: key, kind: CompletionItemKind.Property };
                     item.detail = 'Configuration section';
                     item.documentation = `Configuration section for ${key}`;
                     item.insertText = `${key}:\n  `;
@@ -281,13 +547,13 @@ export class PolycrateCompletionProvider implements vscode.CompletionItemProvide
                     };
                 } else if (Array.isArray(value)) {
                     // Array
-                    item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                    item = { label: key, kind: CompletionItemKind.Property };
                     item.detail = 'Array configuration';
                     item.documentation = `Array configuration for ${key}`;
                     item.insertText = `${key}:\n  - `;
                 } else {
                     // Simple value
-                    item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                    item = { label: key, kind: CompletionItemKind.Property };
                     item.detail = `Default: ${value}`;
                     item.documentation = `Configuration option for ${key}`;
                     item.insertText = `${key}: ${value}`;
@@ -297,10 +563,28 @@ export class PolycrateCompletionProvider implements vscode.CompletionItemProvide
             }
         }
     }
+}
 
-    private isInSection(linePrefix: string, sectionName: string): boolean {
-        // Simple check to see if we're inside a specific section
-        // This is a basic implementation - could be enhanced with proper YAML parsing
-        return linePrefix.includes(`${sectionName}:`);
+/**
+ * `['blocks', 0, 'config']` becomes `blocks.#.config`.
+ */
+function toPathPattern(yamlPath: YamlPath): string {
+    return yamlPath.map(segment => typeof segment === 'number' ? '#' : segment).join('.');
+}
+
+/**
+ * Short form of a value for the detail of a template completion.
+ */
+function describeTemplateValue(value: unknown): string {
+    if (value === undefined) {
+        return 'Not set';
+    }
+    if (Array.isArray(value)) {
+        return value.length === 1 ? 'List (1 item)' : `List (${value.length} items)`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const keys = Object.keys(value).length;
+        return keys === 1 ? 'Map (1 key)' : `Map (${keys} keys)`;
     }
-}
\ No newline at end of file
+    return `Value: ${String(value)}`;
+}
@@ -0,0 +1,145 @@
+import { Document, Node, isMap, isScalar, isSeq } from 'yaml';
+import { findPair, getScalarValue, getSeqItems, nodeRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import { PolycrateBlockResolver } from './blockResolver';
+
+/**
+ * Compares the `config` overrides of workspace block entries with the config
+ * tree the block declares in its block.poly, following `from` inheritance.
+ */
+export class PolycrateConfigValidator {
+
+    public validate(ast: Document.Parsed, resolver: PolycrateBlockResolver): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        for (const block of getSeqItems(ast.contents, ['blocks'])) {
+            const blockName = getScalarValue(block, 'name');
+            const configPair = findPair(block, 'config');
+            if (!blockName || !configPair || !isMap(configPair.value)) {
+                continue;
+            }
+            const declared = resolver.getDeclaredConfig({ name: blockName, from: getScalarValue(block, 'from') });
+            if (declared === undefined) {
+                continue;
+            }
+            this.checkMap(configPair.value, declared, ['config'], blockName, issues);
+        }
+
+        return issues;
+    }
+
+    private checkMap(node: Node, declared: any, configPath: string[], blockName: string, issues: ValidationIssue[]): void {
+        if (!isMap(node)) {
+            return;
+        }
+        // An empty object in the block declares a free-form map
+        if (Object.keys(declared).length === 0) {
+            return;
+        }
+
+        for (const pair of node.items) {
+            if (!isScalar(pair.key)) {
+                continue;
+            }
+            const key = String(pair.key.value);
+            const keyPath = [...configPath, key];
+            const keyRange = nodeRange(pair.key as Node);
+
+            if (!(key in declared)) {
+                const suggestion = findClosestKey(key, Object.keys(declared));
+                issues.push({
+                    message: `Unknown config key '${key}' for block '${blockName}' (${keyPath.join('.')})` +
+                        (suggestion ? `. Did you mean '${suggestion}'?` : `. Declared keys: ${Object.keys(declared).join(', ')}`),
+                    range: keyRange,
+                    severity: 'warning',
+                    rule: 'config-unknown-key',
+                    fix: suggestion && keyRange ? { title: `Change '${key}' to '${suggestion}'`, range: keyRange, newText: suggestion } : undefined
+                });
+                continue;
+            }
+
+            const expected = declared[key];
+            const value = pair.value as Node | null;
+            if (isPlainObject(expected) && isMap(value)) {
+                this.checkMap(value, expected, keyPath, blockName, issues);
+                continue;
+            }
+
+            const expectedType = typeOfValue(expected);
+            const actualType = typeOfNode(value);
+            if (expectedType && actualType && expectedType !== actualType) {
+                issues.push({
+                    message: `Config key '${keyPath.join('.')}' of block '${blockName}' should be of type ${expectedType} (declared default: ${JSON.stringify(expected)}), but is ${actualType}`,
+                    range: nodeRange(value) || keyRange,
+                    severity: 'warning',
+                    rule: 'config-type-mismatch'
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Type name of a declared default, or undefined if it does not constrain
+ * overrides (null defaults accept anything).
+ */
+function typeOfValue(value: any): string | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    if (Array.isArray(value)) {
+        return 'list';
+    }
+    return typeof value === 'object' ? 'object' : typeof value;
+}
+
+function typeOfNode(node: Node | null): string | undefined {
+    if (isMap(node)) {
+        return 'object';
+    }
+    if (isSeq(node)) {
+        return 'list';
+    }
+    if (!isScalar(node) || node.value === null) {
+        return undefined;
+    }
+    // Template expressions are rendered before the value is used
+    if (typeof node.value === 'string' && node.value.includes('{{')) {
+        return undefined;
+    }
+    return typeOfValue(node.value);
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function findClosestKey(key: string, candidates: string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = levenshtein(key.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    // Only suggest names that are plausibly a typo of the key
+    return bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : undefined;
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
@@ -0,0 +1,91 @@
+import { Document, isMap, isPair, isScalar, isSeq, visit } from 'yaml';
+import { YamlPath, parsePolyDocument } from './yamlAst';
+
+// Stands in for the text being typed so that the line parses as a key or value
+const placeholder = '__polycrate_cursor__';
+
+export interface CursorContext {
+    /** Path of the map the cursor is in, e.g. `['blocks', 0, 'config']` */
+    path: YamlPath;
+    /** Key whose value is being typed, or undefined when a key is typed */
+    valueOf?: string;
+    /** The part of the key or value typed before the cursor */
+    typed: string;
+    /** Keys the map at the cursor already has */
+    existingKeys: string[];
+    /** The document with the text at the cursor replaced by a placeholder */
+    ast: Document.Parsed;
+}
+
+/**
+ * Locates the cursor in the YAML structure of a document. The text typed
+ * on the cursor line is replaced by a placeholder key or value first, so a
+ * half-typed line does not break the structure around it. Returns
+ * undefined if the cursor is not at a key or a plain value, e.g. inside a
+ * block scalar.
+ */
+export function getCursorContext(content: string, offset: number): CursorContext | undefined {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+    const newline = content.indexOf('\n', offset);
+    const lineEnd = newline === -1 ? content.length : newline;
+    const prefix = content.substring(lineStart, offset);
+    const rest = content.substring(offset, lineEnd);
+
+    let line: string;
+    let typed: string;
+    const keyMatch = prefix.match(/^(\s*(?:-\s+)*)[\w.-]*$/);
+    const valueMatch = prefix.match(/^(\s*(?:-\s+)*[^\s#:'"-][^#:]*:\s+)[^\s#]*$/);
+    if (keyMatch) {
+        // Keep the value of an existing key the cursor is on
+        const tail = rest.replace(/^[\w.-]*/, '');
+        line = keyMatch[1] + placeholder + (tail.startsWith(':') ? tail : ':');
+        typed = prefix.substring(keyMatch[1].length);
+    } else if (valueMatch) {
+        line = valueMatch[1] + placeholder;
+        typed = prefix.substring(valueMatch[1].length);
+    } else {
+        return undefined;
+    }
+
+    const ast = parsePolyDocument(content.substring(0, lineStart) + line + content.substring(lineEnd));
+    let context: CursorContext | undefined;
+    visit(ast, {
+        Scalar(key, node, ancestors) {
+            if (node.value !== placeholder) {
+                return undefined;
+            }
+            const pair = ancestors[ancestors.length - 1];
+            const map = ancestors[ancestors.length - 2];
+            if (isPair(pair) && isMap(map)) {
+                context = {
+                    path: toYamlPath(ancestors.slice(0, -1)),
+                    valueOf: key === 'value' ? keyName(pair.key) : undefined,
+                    typed,
+                    existingKeys: map.items.filter(item => item !== pair).map(item => keyName(item.key)),
+                    ast
+                };
+            }
+            return visit.BREAK;
+        }
+    });
+    return context;
+}
+
+/**
+ * The path of the last node in a chain of ancestors as yielded by `visit`.
+ */
+function toYamlPath(ancestors: readonly unknown[]): YamlPath {
+    const yamlPath: YamlPath = [];
+    ancestors.forEach((node, i) => {
+        if (isPair(node)) {
+            yamlPath.push(keyName(node.key));
+        } else if (isSeq(node)) {
+            yamlPath.push(node.items.indexOf(ancestors[i + 1]));
+        }
+    });
+    return yamlPath;
+}
+
+function keyName(key: unknown): string {
+    return isScalar(key) ? String(key.value) : String(key);
+}
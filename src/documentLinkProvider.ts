@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import { DocumentLink, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { PolycrateLanguageServer } from './languageServer';
+
+/**
+ * Makes the file and directory paths of workspace and block config
+ * (`config.dockerfile`, `inventory.path`, ...) clickable.
+ */
+export class PolycrateDocumentLinkProvider {
+
+    constructor(private languageServer: PolycrateLanguageServer) {}
+
+    public provideDocumentLinks(document: TextDocument): DocumentLink[] {
+        const text = document.getText();
+        return this.languageServer.getPathReferences(document)
+            // Missing paths are reported as diagnostics instead
+            .filter(reference => fs.existsSync(reference.resolvedPath))
+            .map(reference => {
+                // Links cover the path without the quotes of quoted scalars
+                const quoted = /^["']/.test(text.charAt(reference.range.start));
+                const start = reference.range.start + (quoted ? 1 : 0);
+                const end = reference.range.end - (quoted ? 1 : 0);
+                return {
+                    range: Range.create(document.positionAt(start), document.positionAt(end)),
+                    target: URI.file(reference.resolvedPath).toString(),
+                    tooltip: reference.resolvedPath
+                };
+            });
+    }
+}
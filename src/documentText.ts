@@ -0,0 +1,23 @@
+import { Position, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+// The wordPattern of language-configuration.json, which VS Code applies to word ranges
+const wordPattern = /(-?\d*\.\d\w*)|([^`~!@#%^&*()\-=+[{\]}\\|;:'",.<>/?\s]+)/g;
+
+/** Text of a line without its line break */
+export function getLineText(document: TextDocument, line: number): string {
+    return document.getText(Range.create(line, 0, line + 1, 0)).replace(/\r?\n$/, '');
+}
+
+/** Range of the word at a position, or undefined outside of words */
+export function getWordRangeAtPosition(document: TextDocument, position: Position): Range | undefined {
+    const lineText = getLineText(document, position.line);
+    for (const match of lineText.matchAll(wordPattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (start <= position.character && position.character <= end) {
+            return Range.create(position.line, start, position.line, end);
+        }
+    }
+    return undefined;
+}
@@ -1,47 +1,35 @@
 import * as vscode from 'vscode';
-import { PolycrateLanguageServer } from './languageServer';
-import { PolycrateCompletionProvider } from './completionProvider';
-import { PolycrateHoverProvider } from './hoverProvider';
-import { PolycrateValidationProvider } from './validationProvider';
+import * as path from 'path';
+import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient/node';
 import { PolycrateCommandProvider } from './commandProvider';
+import { CliSettings, PolycrateCliService } from './cliService';
+import { defaultSettings } from './settings';
+
+let client: LanguageClient | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Polycrate extension is now active!');
 
-    const config = vscode.workspace.getConfiguration('polycrate');
-    
-    // Language server
-    const languageServer = new PolycrateLanguageServer(context);
-    
-    // Completion provider
-    if (config.get('completion.enable', true)) {
-        const completionProvider = new PolycrateCompletionProvider();
-        context.subscriptions.push(
-            vscode.languages.registerCompletionItemProvider(
-                { language: 'polycrate' },
-                completionProvider,
-                ':', '"', "'", '-', ' '
-            )
-        );
-    }
-    
-    // Hover provider
-    const hoverProvider = new PolycrateHoverProvider();
-    context.subscriptions.push(
-        vscode.languages.registerHoverProvider(
-            { language: 'polycrate' },
-            hoverProvider
-        )
-    );
-    
-    // Validation provider
-    if (config.get('validation.enable', true)) {
-        const validationProvider = new PolycrateValidationProvider(context);
-        context.subscriptions.push(validationProvider);
-    }
-    
+    // Polycrate CLI for the commands; the language server runs its own
+    const outputChannel = vscode.window.createOutputChannel('Polycrate CLI');
+    context.subscriptions.push(outputChannel);
+    const cli = new PolycrateCliService(getCliSettings, message => outputChannel.appendLine(message));
+
+    // Validation, completion, hover and quick fixes run in the language server
+    const serverModule = context.asAbsolutePath(path.join('out', 'server.js'));
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.stdio },
+        debug: { module: serverModule, transport: TransportKind.stdio, options: { execArgv: ['--nolazy', '--inspect=6009'] } }
+    };
+    const clientOptions: LanguageClientOptions = {
+        documentSelector: [{ language: 'polycrate' }],
+        synchronize: { configurationSection: 'polycrate' }
+    };
+    client = new LanguageClient('polycrate', 'Polycrate Language Server', serverOptions, clientOptions);
+    client.start();
+
     // Command provider
-    const commandProvider = new PolycrateCommandProvider(context);
+    const commandProvider = new PolycrateCommandProvider(context, cli, client);
     context.subscriptions.push(
         vscode.commands.registerCommand('polycrate.validateWorkspace', commandProvider.validateWorkspace),
         vscode.commands.registerCommand('polycrate.validateBlock', commandProvider.validateBlock),
@@ -53,6 +41,12 @@ export function activate(context: vscode.ExtensionContext) {
     );
 }
 
-export function deactivate() {
+export function deactivate(): Thenable<void> | undefined {
     console.log('Polycrate extension is now deactivated!');
-}
\ No newline at end of file
+    return client?.stop();
+}
+
+function getCliSettings(): CliSettings {
+    const config = vscode.workspace.getConfiguration('polycrate');
+    return { ...defaultSettings.cli, ...config.get<Partial<CliSettings>>('cli') };
+}
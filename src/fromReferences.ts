@@ -0,0 +1,57 @@
+import { Document } from 'yaml';
+import { OffsetRange, getScalarValue, getSeqItems, valueRange } from './yamlAst';
+
+export type PinState = 'pinned' | 'latest' | 'unversioned';
+
+export interface FromReference {
+    /** Block that declares the `from` */
+    blockName: string;
+    from: string;
+    range: OffsetRange | undefined;
+}
+
+/**
+ * All `from:` values of a document: the root of a block.poly and every
+ * entry of `blocks` in a workspace.poly.
+ */
+export function findFromReferences(ast: Document.Parsed): FromReference[] {
+    const references: FromReference[] = [];
+    const root = ast.contents;
+
+    const rootFrom = getScalarValue(root, 'from');
+    if (rootFrom) {
+        references.push({ blockName: getScalarValue(root, 'name') || 'unnamed', from: rootFrom, range: valueRange(root, 'from') });
+    }
+    for (const block of getSeqItems(root, ['blocks'])) {
+        const from = getScalarValue(block, 'from');
+        const blockName = getScalarValue(block, 'name');
+        if (from && blockName) {
+            references.push({ blockName, from, range: valueRange(block, 'from') });
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Whether a reference carries a version. Only the last path segment can hold
+ * a tag, as a `:` before it belongs to a registry port.
+ */
+export function getPinState(from: string): PinState {
+    const tail = from.substring(from.lastIndexOf('/') + 1);
+    if (/[:@]latest$/.test(tail)) {
+        return 'latest';
+    }
+    return /[:@]/.test(tail) ? 'pinned' : 'unversioned';
+}
+
+/**
+ * Replaces a `latest` tag by `version`, or appends `:version` to a reference
+ * without a tag. The separator of an existing tag is kept.
+ */
+export function pinFrom(from: string, version: string): string {
+    if (getPinState(from) === 'latest') {
+        return from.replace(/([:@])latest$/, `$1${version}`);
+    }
+    return `${from}:${version}`;
+}
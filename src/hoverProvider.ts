@@ -1,42 +1,43 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
+import { Hover, MarkupContent, MarkupKind, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { getLineText, getWordRangeAtPosition } from './documentText';
+import { PolycrateLanguageServer } from './languageServer';
 
-export class PolycrateHoverProvider implements vscode.HoverProvider {
+export class PolycrateHoverProvider {
+
+    constructor(private languageServer: PolycrateLanguageServer) {}
     
-    public async provideHover(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken
-    ): Promise<vscode.Hover | null> {
+    public async provideHover(document: TextDocument, position: Position): Promise<Hover | null> {
         
-        const range = document.getWordRangeAtPosition(position);
+        const range = getWordRangeAtPosition(document, position);
         if (!range) {
             return null;
         }
         
         const word = document.getText(range);
-        const line = document.lineAt(position);
-        const lineText = line.text;
+        const lineText = getLineText(document, position.line);
         
         // Check if we're in a block config section
         const blockConfigPreview = await this.getBlockConfigPreview(document, position);
         if (blockConfigPreview) {
-            return new vscode.Hover(blockConfigPreview, range);
+            return { contents: blockConfigPreview, range };
         }
         
         // Check if the word is a Polycrate keyword
         const hoverInfo = this.getHoverInfo(word, lineText);
         
         if (hoverInfo) {
-            return new vscode.Hover(hoverInfo, range);
+            return { contents: hoverInfo, range };
         }
         
         return null;
     }
 
-    private async getBlockConfigPreview(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.MarkdownString | null> {
+    private async getBlockConfigPreview(document: TextDocument, position: Position): Promise<MarkupContent | null> {
         try {
-            const fileName = path.basename(document.uri.fsPath);
+            const fileName = path.basename(URI.parse(document.uri).fsPath);
             
             // Only show preview for workspace.poly files
             if (fileName !== 'workspace.poly') {
@@ -49,31 +50,29 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
                 return null;
             }
             
-            // Find the block.poly file for this block
-            const blockConfig = await this.loadBlockConfig(blockInfo.blockName, document.uri.fsPath);
+            // Find the block config below the workspace's blocksroot
+            const blockConfig = this.loadBlockConfig(blockInfo.blockName, document);
             if (!blockConfig) {
                 return null;
             }
             
             // Create preview markdown
-            const markdown = new vscode.MarkdownString();
-            markdown.isTrusted = true;
-            markdown.supportHtml = true;
+            let markdown = '';
             
-            markdown.appendMarkdown(`**Block Config Preview for '${blockInfo.blockName}'**\n\n`);
+            markdown += `**Block Config Preview for '${blockInfo.blockName}'**\n\n`;
             
             if (blockConfig.config) {
-                markdown.appendMarkdown('**Available configuration options:**\n\n');
-                markdown.appendCodeblock(this.formatConfigPreview(blockConfig.config), 'yaml');
+                markdown += '**Available configuration options:**\n\n';
+                markdown += codeBlock(this.formatConfigPreview(blockConfig.config));
             } else {
-                markdown.appendMarkdown('*No configuration options defined in block.poly*');
+                markdown += '*No configuration options defined in block.poly*';
             }
             
             if (blockConfig.description) {
-                markdown.appendMarkdown(`\n\n**Description:** ${blockConfig.description}`);
+                markdown += `\n\n**Description:** ${blockConfig.description}`;
             }
             
-            return markdown;
+            return { kind: MarkupKind.Markdown, value: markdown };
             
         } catch (error) {
             console.error('Error generating block config preview:', error);
@@ -81,7 +80,7 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
         }
     }
 
-    private getBlockContextAtPosition(document: vscode.TextDocument, position: vscode.Position): { blockName: string; isInConfig: boolean } | null {
+    private getBlockContextAtPosition(document: TextDocument, position: Position): { blockName: string; isInConfig: boolean } | null {
         const text = document.getText();
         let currentBlockName: string | null = null;
         let isInConfig = false;
@@ -130,29 +129,11 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
         return null;
     }
 
-    private async loadBlockConfig(blockName: string, workspaceFilePath: string): Promise<any> {
+    private loadBlockConfig(blockName: string, document: TextDocument): any {
         try {
-            const workspaceDir = path.dirname(workspaceFilePath);
-            const blockDir = path.join(workspaceDir, 'blocks', blockName);
-            const blockPolyPath = path.join(blockDir, 'block.poly');
-            
-            // Try to read the block.poly file
-            const fs = require('fs');
-            if (!fs.existsSync(blockPolyPath)) {
-                return null;
-            }
-            
-            const blockContent = fs.readFileSync(blockPolyPath, 'utf8');
-            
-            // Parse YAML
-            let yaml;
-            try {
-                yaml = require('yaml');
-            } catch (requireError) {
-                return null;
-            }
-            
-            return yaml.parse(blockContent);
+            const { resolver } = this.languageServer.getWorkspaceContext(document);
+            const directory = resolver && resolver.findBlockDirectory(blockName);
+            return resolver && directory ? resolver.loadBlock(directory) : null;
             
         } catch (error) {
             console.error('Error loading block config:', error);
@@ -180,7 +161,7 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
         return result;
     }
 
-    private getHoverInfo(word: string, lineText: string): vscode.MarkdownString | null {
+    private getHoverInfo(word: string, lineText: string): MarkupContent | null {
         const hoverMap: { [key: string]: { description: string; example?: string } } = {
             // Workspace fields
             'name': {
@@ -304,6 +285,20 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
                 example: 'prompt:\n  message: "Continue with deployment?"'
             },
             
+            // Changelog fields
+            'date': {
+                description: 'Release date of a changelog entry in ISO 8601 format.',
+                example: 'date: "2024-01-15T10:00:00Z"'
+            },
+            'feat': {
+                description: 'Changelog type for a new feature.',
+                example: 'type: "feat"'
+            },
+            'fix': {
+                description: 'Changelog type for a bug fix.',
+                example: 'type: "fix"'
+            },
+            
             // Chart fields
             'chart': {
                 description: 'Helm chart configuration for Kubernetes applications.',
@@ -328,18 +323,20 @@ export class PolycrateHoverProvider implements vscode.HoverProvider {
             return null;
         }
         
-        const markdown = new vscode.MarkdownString();
-        markdown.isTrusted = true;
-        markdown.supportHtml = true;
+        let markdown = '';
         
-        markdown.appendMarkdown(`**${word}**\n\n`);
-        markdown.appendMarkdown(info.description);
+        markdown += `**${word}**\n\n`;
+        markdown += info.description;
         
         if (info.example) {
-            markdown.appendMarkdown('\n\n**Example:**\n\n');
-            markdown.appendCodeblock(info.example, 'yaml');
+            markdown += '\n\n**Example:**\n\n';
+            markdown += codeBlock(info.example);
         }
         
-        return markdown;
+        return { kind: MarkupKind.Markdown, value: markdown };
     }
-}
\ No newline at end of file
+}
+
+function codeBlock(code: string): string {
+    return `\n\`\`\`yaml\n${code}\n\`\`\`\n`;
+}
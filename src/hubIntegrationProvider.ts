@@ -1,13 +1,15 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { spawn } from 'child_process';
+import { PolycrateCliService, parseBlockList } from './cliService';
 
 export class PolycrateHubIntegrationProvider {
     private context: vscode.ExtensionContext;
     private outputChannel: vscode.OutputChannel;
+    private cli: PolycrateCliService;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, cli: PolycrateCliService) {
         this.context = context;
+        this.cli = cli;
         this.outputChannel = vscode.window.createOutputChannel('Polycrate Hub');
     }
 
@@ -167,9 +169,7 @@ export class PolycrateHubIntegrationProvider {
     private async searchBlocks(searchTerm: string): Promise<any[]> {
         try {
             const workspaceRoot = this.findWorkspaceRoot();
-            const result = await this.runPolycrateCommand(['blocks', 'search', searchTerm], workspaceRoot || undefined);
-            
-            return this.parseBlockSearchResults(result);
+            return await this.cli.searchBlocks(searchTerm, { cwd: workspaceRoot || undefined });
         } catch (error) {
             this.outputChannel.appendLine(`CLI search failed, using mock data: ${error}`);
             // Return mock data for demo purposes
@@ -180,9 +180,9 @@ export class PolycrateHubIntegrationProvider {
     private async getBlocksByCategory(category: string): Promise<any[]> {
         try {
             const workspaceRoot = this.findWorkspaceRoot();
-            const result = await this.runPolycrateCommand(['blocks', 'list', '--category', category.toLowerCase()], workspaceRoot || undefined);
+            const result = await this.cli.run(['blocks', 'list', '--category', category.toLowerCase()], { cwd: workspaceRoot || undefined });
             
-            return this.parseBlockSearchResults(result);
+            return parseBlockList(result);
         } catch (error) {
             this.outputChannel.appendLine(`CLI category search failed, using mock data: ${error}`);
             // Return mock data for demo purposes
@@ -193,9 +193,9 @@ export class PolycrateHubIntegrationProvider {
     private async getBlocksByKind(kind: string): Promise<any[]> {
         try {
             const workspaceRoot = this.findWorkspaceRoot();
-            const result = await this.runPolycrateCommand(['blocks', 'list', '--kind', kind], workspaceRoot || undefined);
+            const result = await this.cli.run(['blocks', 'list', '--kind', kind], { cwd: workspaceRoot || undefined });
             
-            return this.parseBlockSearchResults(result);
+            return parseBlockList(result);
         } catch (error) {
             this.outputChannel.appendLine(`CLI kind search failed, using mock data: ${error}`);
             // Return mock data for demo purposes
@@ -206,9 +206,9 @@ export class PolycrateHubIntegrationProvider {
     private async getPopularBlocks(): Promise<any[]> {
         try {
             const workspaceRoot = this.findWorkspaceRoot();
-            const result = await this.runPolycrateCommand(['blocks', 'list', '--popular'], workspaceRoot || undefined);
+            const result = await this.cli.run(['blocks', 'list', '--popular'], { cwd: workspaceRoot || undefined });
             
-            return this.parseBlockSearchResults(result);
+            return parseBlockList(result);
         } catch (error) {
             this.outputChannel.appendLine(`CLI popular search failed, using mock data: ${error}`);
             // Return mock data for demo purposes
@@ -219,9 +219,9 @@ export class PolycrateHubIntegrationProvider {
     private async getRecentBlocks(): Promise<any[]> {
         try {
             const workspaceRoot = this.findWorkspaceRoot();
-            const result = await this.runPolycrateCommand(['blocks', 'list', '--recent'], workspaceRoot || undefined);
+            const result = await this.cli.run(['blocks', 'list', '--recent'], { cwd: workspaceRoot || undefined });
             
-            return this.parseBlockSearchResults(result);
+            return parseBlockList(result);
         } catch (error) {
             this.outputChannel.appendLine(`CLI recent search failed, using mock data: ${error}`);
             // Return mock data for demo purposes
@@ -372,48 +372,6 @@ export class PolycrateHubIntegrationProvider {
         }
     }
 
-    private parseBlockSearchResults(output: string): any[] {
-        // Parse CLI output - this would need to be adapted based on actual CLI format
-        const blocks: any[] = [];
-        
-        try {
-            // Try to parse as YAML first
-            let yaml;
-            try {
-                yaml = require('yaml');
-                const parsed = yaml.parse(output);
-                if (Array.isArray(parsed)) {
-                    return parsed;
-                }
-                if (parsed && parsed.blocks) {
-                    return parsed.blocks;
-                }
-            } catch (yamlError) {
-                // Fall back to line parsing
-            }
-            
-            // Simple line-based parsing
-            const lines = output.split('\n').filter(line => line.trim());
-            for (const line of lines) {
-                if (line.includes('Name:') || line.includes('Block:')) {
-                    const parts = line.split(/[:\s]+/);
-                    if (parts.length >= 2) {
-                        blocks.push({
-                            name: parts[1],
-                            kind: 'generic',
-                            version: '1.0.0',
-                            description: line
-                        });
-                    }
-                }
-            }
-        } catch (error) {
-            this.outputChannel.appendLine(`Error parsing search results: ${error}`);
-        }
-        
-        return blocks;
-    }
-
     private formatBlockDetails(block: any): string {
         let content = `# ${block.name}\n\n`;
         
@@ -620,41 +578,6 @@ export class PolycrateHubIntegrationProvider {
         ];
     }
 
-    private async runPolycrateCommand(args: string[], cwd?: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const config = vscode.workspace.getConfiguration('polycrate');
-            const cliPath = config.get('cli.path', 'polycrate');
-            
-            const child = spawn(cliPath, args, { 
-                cwd: cwd || process.cwd(),
-                stdio: 'pipe'
-            });
-            
-            let stdout = '';
-            let stderr = '';
-            
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
-            
-            child.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
-            
-            child.on('close', (code) => {
-                if (code === 0) {
-                    resolve(stdout);
-                } else {
-                    reject(new Error(`Command failed with code ${code}: ${stderr}`));
-                }
-            });
-            
-            child.on('error', (error) => {
-                reject(error);
-            });
-        });
-    }
-
     private findWorkspaceRoot(): string | null {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
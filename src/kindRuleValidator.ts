@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import { Node } from 'yaml';
+import { OffsetRange, findPair, itemAnchorRange, nodeRange, valueRange } from './yamlAst';
+import { IssueSeverity, ValidationIssue } from './validationIssue';
+import { validationRules } from './validationRules';
+
+/**
+ * A rule of a rule pack. Field paths are dotted paths into the block with
+ * its inherited fields, e.g. `config.connection.port`.
+ */
+export interface KindRule {
+    id: string;
+    /** Block kinds the rule applies to; all kinds if omitted */
+    kinds?: string[];
+    /** Field values the block must have for the rule to apply */
+    when?: { [fieldPath: string]: string | number | boolean };
+    /** Fields that must be set */
+    require?: string[];
+    /** Fields of which at least one must be set */
+    requireAny?: string[];
+    /**
+     * Fields of `require` and `requireAny` that blocks inherit from the
+     * workspace; they count as set if workspace.poly sets them
+     */
+    workspaceFallback?: string[];
+    message: string;
+    severity?: IssueSeverity;
+    /** Documentation link shown with the issue */
+    docs?: string;
+}
+
+export interface KindRuleTarget {
+    /** The block with the fields it inherits merged in */
+    block: any;
+    /** The block's map in the validated document */
+    node: Node;
+    /** The workspace.poly the block belongs to, if known */
+    workspace?: any;
+}
+
+const severities: IssueSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+/**
+ * Applies the rule packs for block kinds: the bundled schemas/kind-rules.json
+ * and the packs configured in `polycrate.validation.rulePacks`. A rule in a
+ * later pack replaces a rule with the same ID, so house rules can tighten or
+ * relax the bundled ones.
+ */
+export class PolycrateKindRuleValidator {
+    private packs = new Map<string, { mtime: number; rules: KindRule[] }>();
+
+    constructor(private bundledPackPath: string) {}
+
+    public validate(targets: KindRuleTarget[], content: string, packPaths: string[] = []): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const rules = new Map<string, KindRule>();
+
+        for (const packPath of [this.bundledPackPath, ...packPaths]) {
+            try {
+                for (const rule of this.loadPack(packPath, packPath === this.bundledPackPath ? undefined : rules)) {
+                    rules.set(rule.id, rule);
+                }
+            } catch (error) {
+                issues.push({
+                    message: `Could not load rule pack '${packPath}': ${error}`,
+                    range: undefined,
+                    severity: 'warning',
+                    rule: 'rule-pack-load-failed'
+                });
+            }
+        }
+
+        for (const target of targets) {
+            for (const rule of rules.values()) {
+                const issue = this.check(rule, target, content);
+                if (issue) {
+                    issues.push(issue);
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Reads a pack, reusing the parsed rules until the file changes on disk.
+     * `bundled` holds the bundled rules, which house rules may replace.
+     */
+    private loadPack(packPath: string, bundled: Map<string, KindRule> | undefined): KindRule[] {
+        const mtime = fs.statSync(packPath).mtimeMs;
+        const cached = this.packs.get(packPath);
+        if (cached && cached.mtime === mtime) {
+            return cached.rules;
+        }
+
+        const pack = JSON.parse(fs.readFileSync(packPath, 'utf8'));
+        if (!pack || !Array.isArray(pack.rules)) {
+            throw new Error("'rules' must be a list");
+        }
+        pack.rules.forEach((rule: any, i: number) => {
+            if (!rule || typeof rule.id !== 'string' || typeof rule.message !== 'string') {
+                throw new Error(`rule ${i + 1} needs an 'id' and a 'message'`);
+            }
+            if (bundled && rule.id in validationRules && !bundled.has(rule.id)) {
+                throw new Error(`rule '${rule.id}' has the ID of a built-in rule`);
+            }
+            if (rule.severity !== undefined && !severities.includes(rule.severity)) {
+                throw new Error(`rule '${rule.id}' has an invalid severity '${rule.severity}'`);
+            }
+        });
+
+        this.packs.set(packPath, { mtime, rules: pack.rules });
+        return pack.rules;
+    }
+
+    private check(rule: KindRule, target: KindRuleTarget, content: string): ValidationIssue | undefined {
+        const block = target.block;
+        if (rule.kinds && !rule.kinds.includes(block.kind)) {
+            return undefined;
+        }
+        if (rule.when && !Object.entries(rule.when).every(([fieldPath, expected]) => getField(block, fieldPath) === expected)) {
+            return undefined;
+        }
+
+        const fallback = rule.workspaceFallback || [];
+        const hasField = (fieldPath: string) => isSet(getField(block, fieldPath))
+            || (fallback.includes(fieldPath) && isSet(getField(target.workspace, fieldPath)));
+        const missing = (rule.require || []).filter(fieldPath => !hasField(fieldPath));
+        const anyOf = rule.requireAny || [];
+        const anyMissing = anyOf.length > 0 && !anyOf.some(hasField);
+        if (missing.length === 0 && !anyMissing) {
+            return undefined;
+        }
+
+        const details: string[] = [];
+        if (missing.length > 0) {
+            details.push(`missing ${missing.join(', ')}`);
+        }
+        if (anyMissing) {
+            details.push(`set one of ${anyOf.join(', ')}`);
+        }
+        return {
+            message: `${rule.message} (${details.join('; ')})`,
+            range: this.anchorRange(target.node, missing.length > 0 ? missing[0] : anyOf[0], content),
+            severity: rule.severity || 'warning',
+            rule: rule.id,
+            docsUrl: rule.docs
+        };
+    }
+
+    /**
+     * Range of the deepest part of `fieldPath` that the document contains,
+     * falling back to the block's `kind` or name.
+     */
+    private anchorRange(node: Node, fieldPath: string, content: string): OffsetRange | undefined {
+        let range: OffsetRange | undefined;
+        let current: unknown = node;
+        for (const segment of fieldPath.split('.')) {
+            const pair = findPair(current, segment);
+            if (!pair) {
+                break;
+            }
+            range = nodeRange(pair.key);
+            current = pair.value;
+        }
+        return range || valueRange(node, 'kind') || itemAnchorRange(node, content);
+    }
+}
+
+function getField(block: any, fieldPath: string): unknown {
+    let current = block;
+    for (const segment of fieldPath.split('.')) {
+        if (current === null || typeof current !== 'object') {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+function isSet(value: unknown): boolean {
+    return value !== undefined && value !== null && value !== '';
+}
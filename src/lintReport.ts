@@ -0,0 +1,184 @@
+import * as path from 'path';
+import { offsetToPosition } from './yamlAst';
+import { IssueSeverity, ValidationIssue } from './validationIssue';
+import { ruleDocsUrl, validationRules } from './validationRules';
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const reportFormats: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+/** The issues of one linted file */
+export interface FileReport {
+    filePath: string;
+    content: string;
+    issues: ValidationIssue[];
+}
+
+/** An issue with 1-based line and column numbers and a path relative to the linted directory */
+interface PositionedIssue {
+    file: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    severity: IssueSeverity;
+    rule: string;
+    message: string;
+    docsUrl?: string;
+}
+
+/**
+ * Renders lint results. File paths are printed relative to `baseDir`.
+ */
+export function formatReport(reports: FileReport[], format: ReportFormat, baseDir: string): string {
+    switch (format) {
+        case 'json':
+            return formatJson(reports, baseDir);
+        case 'sarif':
+            return formatSarif(reports, baseDir);
+        case 'junit':
+            return formatJunit(reports, baseDir);
+        default:
+            return formatText(reports, baseDir);
+    }
+}
+
+export function countIssues(reports: FileReport[], severity: IssueSeverity): number {
+    return reports.reduce((count, report) => count + report.issues.filter(issue => issue.severity === severity).length, 0);
+}
+
+function positionIssues(report: FileReport, baseDir: string): PositionedIssue[] {
+    const file = toRelativePath(report.filePath, baseDir);
+    return report.issues.map(issue => {
+        const start = offsetToPosition(report.content, issue.range ? issue.range.start : 0);
+        const end = offsetToPosition(report.content, issue.range ? issue.range.end : 0);
+        return {
+            file,
+            line: start.line + 1,
+            column: start.character + 1,
+            endLine: end.line + 1,
+            endColumn: end.character + 1,
+            severity: issue.severity,
+            rule: issue.rule,
+            message: issue.message,
+            docsUrl: issue.docsUrl
+        };
+    });
+}
+
+function toRelativePath(filePath: string, baseDir: string): string {
+    return path.relative(baseDir, filePath).split(path.sep).join('/');
+}
+
+function formatText(reports: FileReport[], baseDir: string): string {
+    const lines: string[] = [];
+    for (const report of reports) {
+        for (const issue of positionIssues(report, baseDir)) {
+            lines.push(`${issue.file}:${issue.line}:${issue.column}: ${issue.severity} ${issue.message} [${issue.rule}]`);
+        }
+    }
+
+    const errors = countIssues(reports, 'error');
+    const warnings = countIssues(reports, 'warning');
+    lines.push(`${reports.length} files checked, ${errors} errors, ${warnings} warnings`);
+    return lines.join('\n') + '\n';
+}
+
+function formatJson(reports: FileReport[], baseDir: string): string {
+    const files = reports.map(report => ({
+        file: toRelativePath(report.filePath, baseDir),
+        issues: positionIssues(report, baseDir).map(({ file, ...issue }) => issue)
+    }));
+    return JSON.stringify({
+        files,
+        errors: countIssues(reports, 'error'),
+        warnings: countIssues(reports, 'warning')
+    }, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0, as read by GitHub code scanning and GitLab. Info and hint
+ * issues are reported with level `note`.
+ */
+function formatSarif(reports: FileReport[], baseDir: string): string {
+    const issues = reports.flatMap(report => positionIssues(report, baseDir));
+    const ruleIds = [...new Set(issues.map(issue => issue.rule))].sort();
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'polycrate-lint',
+                    informationUri: ruleDocsUrl,
+                    rules: ruleIds.map(id => {
+                        // House rules link to their own documentation
+                        const documented = issues.find(issue => issue.rule === id && issue.docsUrl);
+                        return {
+                            id,
+                            shortDescription: { text: validationRules[id] || id },
+                            helpUri: documented ? documented.docsUrl : `${ruleDocsUrl}#${id}`
+                        };
+                    })
+                }
+            },
+            results: issues.map(issue => ({
+                ruleId: issue.rule,
+                ruleIndex: ruleIds.indexOf(issue.rule),
+                level: issue.severity === 'error' || issue.severity === 'warning' ? issue.severity : 'note',
+                message: { text: issue.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: issue.file },
+                        region: {
+                            startLine: issue.line,
+                            startColumn: issue.column,
+                            endLine: issue.endLine,
+                            endColumn: issue.endColumn
+                        }
+                    }
+                }]
+            }))
+        }]
+    }, null, 2) + '\n';
+}
+
+/**
+ * JUnit XML with one test suite per file and one failing test case per
+ * error or warning. Files without issues get a single passing test case so
+ * CI systems show them as checked.
+ */
+function formatJunit(reports: FileReport[], baseDir: string): string {
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    const failures = (report: FileReport) => report.issues.filter(issue => issue.severity === 'error' || issue.severity === 'warning').length;
+    const total = reports.reduce((count, report) => count + failures(report), 0);
+    lines.push(`<testsuites name="polycrate-lint" tests="${reports.reduce((count, report) => count + Math.max(1, failures(report)), 0)}" failures="${total}">`);
+
+    for (const report of reports) {
+        const file = escapeXml(toRelativePath(report.filePath, baseDir));
+        const issues = positionIssues(report, baseDir).filter(issue => issue.severity === 'error' || issue.severity === 'warning');
+        lines.push(`  <testsuite name="${file}" tests="${Math.max(1, issues.length)}" failures="${issues.length}">`);
+        if (issues.length === 0) {
+            lines.push(`    <testcase classname="${file}" name="${file}"/>`);
+        }
+        for (const issue of issues) {
+            lines.push(`    <testcase classname="${file}" name="${escapeXml(`${issue.rule} (${issue.line}:${issue.column})`)}">`);
+            lines.push(`      <failure type="${issue.severity}" message="${escapeXml(issue.message)}">${escapeXml(`${issue.file}:${issue.line}:${issue.column}: ${issue.message}`)}</failure>`);
+            lines.push('    </testcase>');
+        }
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,153 @@
+import { Document, Node } from 'yaml';
+import { OffsetRange, getScalarValue, getSeqItems, itemAnchorRange, valueRange } from './yamlAst';
+import { RelatedLocation, ValidationIssue } from './validationIssue';
+import { LocalBlock, PolycrateBlockResolver } from './blockResolver';
+
+export interface WorkspaceFile {
+    ast: Document.Parsed;
+    filePath: string;
+}
+
+interface NamedItem {
+    name: string;
+    node: Node;
+}
+
+/**
+ * Detects names that are defined more than once (blocks, actions, workflows)
+ * and local blocks whose declared name does not match their directory.
+ */
+export class PolycrateNameValidator {
+
+    public validateWorkspace(ast: Document.Parsed, content: string, resolver: PolycrateBlockResolver | undefined): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        const blocks = getSeqItems(root, ['blocks']);
+
+        issues.push(...this.findDuplicates(blocks, content, 'block', 'blocks'));
+        for (const block of blocks) {
+            const blockName = getScalarValue(block, 'name') || 'unnamed';
+            issues.push(...this.findDuplicates(getSeqItems(block, ['actions']), content, 'action', `block '${blockName}'`));
+        }
+        issues.push(...this.findDuplicates(getSeqItems(root, ['workflows']), content, 'workflow', 'workflows'));
+
+        if (resolver) {
+            issues.push(...this.findDirectoryConflicts(blocks, content, resolver.listLocalBlockFiles()));
+        }
+
+        return issues;
+    }
+
+    public validateBlock(ast: Document.Parsed, content: string, filePath: string, resolver: PolycrateBlockResolver | undefined, workspaceFile?: WorkspaceFile): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        const name = getScalarValue(root, 'name');
+
+        issues.push(...this.findDuplicates(getSeqItems(root, ['actions']), content, 'action', `block '${name || 'unnamed'}'`));
+
+        const directory = resolver ? resolver.getBlockDirectory(filePath) : undefined;
+        if (name && directory && name !== directory) {
+            const related: RelatedLocation[] = [];
+            if (workspaceFile) {
+                for (const entry of getSeqItems(workspaceFile.ast.contents, ['blocks'])) {
+                    const entryName = getScalarValue(entry, 'name');
+                    if (entryName === name || entryName === directory) {
+                        related.push({
+                            message: `Workspace block '${entryName}'`,
+                            range: valueRange(entry, 'name'),
+                            filePath: workspaceFile.filePath
+                        });
+                    }
+                }
+            }
+            issues.push({
+                message: `Block name '${name}' does not match its directory '${directory}'. Local blocks are found by their declared name, so references to '${directory}' do not find this block`,
+                range: valueRange(root, 'name'),
+                severity: 'warning',
+                rule: 'block-directory-mismatch',
+                related
+            });
+        }
+
+        return issues;
+    }
+
+    /**
+     * Reports every occurrence of a name that is defined more than once, each
+     * linked to all other definitions.
+     */
+    private findDuplicates(items: Node[], content: string, kind: string, scope: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const byName = new Map<string, NamedItem[]>();
+
+        for (const node of items) {
+            const name = getScalarValue(node, 'name');
+            if (!name) {
+                continue;
+            }
+            byName.set(name, [...(byName.get(name) || []), { name, node }]);
+        }
+
+        for (const [name, definitions] of byName) {
+            if (definitions.length < 2) {
+                continue;
+            }
+            for (const definition of definitions) {
+                issues.push({
+                    message: `Duplicate ${kind} name '${name}' in ${scope} (defined ${definitions.length} times)`,
+                    range: this.nameRange(definition.node, content),
+                    severity: 'error',
+                    rule: 'duplicate-name',
+                    related: definitions
+                        .filter(other => other !== definition)
+                        .map(other => ({ message: `Other definition of '${name}'`, range: this.nameRange(other.node, content) }))
+                });
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Workspace entries that point to a local block directory whose block.poly
+     * declares a different name, or that use a name declared by another directory.
+     */
+    private findDirectoryConflicts(blocks: Node[], content: string, localBlocks: LocalBlock[]): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        for (const entry of blocks) {
+            const entryName = getScalarValue(entry, 'name');
+            if (!entryName) {
+                continue;
+            }
+            const byDirectory = localBlocks.find(block => block.directory === entryName);
+            const conflicting = byDirectory
+                ? (byDirectory.name && byDirectory.name !== entryName ? byDirectory : undefined)
+                : localBlocks.find(block => block.name === entryName);
+            if (!conflicting) {
+                continue;
+            }
+
+            const related: RelatedLocation = {
+                message: `block.poly in '${conflicting.directory}' declares name '${conflicting.name}'`,
+                range: conflicting.nameRange,
+                filePath: conflicting.filePath
+            };
+            issues.push({
+                message: byDirectory
+                    ? `Block '${entryName}' does not use the local directory '${conflicting.directory}', as its block.poly declares name '${conflicting.name}'. The entry gets no config or actions from it`
+                    : `Block '${entryName}' is declared by the local block in directory '${conflicting.directory}'. References to '${conflicting.directory}' do not find it, rename the directory to match`,
+                range: this.nameRange(entry, content),
+                severity: 'warning',
+                rule: 'block-directory-mismatch',
+                related: [related]
+            });
+        }
+
+        return issues;
+    }
+
+    private nameRange(node: Node, content: string): OffsetRange | undefined {
+        return valueRange(node, 'name') || itemAnchorRange(node, content);
+    }
+}
@@ -0,0 +1,77 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Document, isScalar } from 'yaml';
+import { OffsetRange, getNodeAtPath, getScalarValue, getSeqItems, nodeRange } from './yamlAst';
+
+export type PathType = 'file' | 'directory';
+
+export interface PathReference {
+    /** Field that holds the path, e.g. `config.dockerfile` */
+    field: string;
+    value: string;
+    type: PathType;
+    range: OffsetRange;
+}
+
+// Workspace fields that name a file or directory relative to the workspace root
+const workspacePathFields: { field: string; type: PathType }[] = [
+    { field: 'inventory.path', type: 'file' },
+    { field: 'kubeconfig.path', type: 'file' },
+    { field: 'config.dockerfile', type: 'file' },
+    { field: 'config.sshprivatekey', type: 'file' },
+    { field: 'config.sshpublickey', type: 'file' },
+    { field: 'config.blocksroot', type: 'directory' },
+    { field: 'config.workflowsroot', type: 'directory' },
+    { field: 'config.artifactsroot', type: 'directory' }
+];
+
+// Block locations whose `path` names a file
+const locationFields = ['inventory', 'kubeconfig'];
+
+/**
+ * Paths named in a document: the workspace config fields and
+ * `inventory.path`/`kubeconfig.path` of a workspace.poly, and
+ * `inventory.path`/`kubeconfig.path` of a block.poly or of the block
+ * entries in a workspace.poly. Values with template expressions are skipped.
+ */
+export function findPathReferences(ast: Document.Parsed, isWorkspace: boolean): PathReference[] {
+    const references: PathReference[] = [];
+    const root = ast.contents;
+
+    const add = (owner: unknown, field: string, type: PathType, label: string) => {
+        const node = getNodeAtPath(owner, field.split('.'));
+        const range = nodeRange(node);
+        if (isScalar(node) && typeof node.value === 'string' && node.value.trim() !== '' && !node.value.includes('{{') && range) {
+            references.push({ field: label, value: node.value, type, range });
+        }
+    };
+
+    if (isWorkspace) {
+        for (const { field, type } of workspacePathFields) {
+            add(root, field, type, field);
+        }
+        for (const block of getSeqItems(root, ['blocks'])) {
+            const blockName = getScalarValue(block, 'name') || 'unnamed';
+            for (const location of locationFields) {
+                add(block, `${location}.path`, 'file', `${location}.path of block '${blockName}'`);
+            }
+        }
+    } else {
+        for (const location of locationFields) {
+            add(root, `${location}.path`, 'file', `${location}.path`);
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Absolute path of a referenced path. Relative paths are resolved against
+ * the workspace root and `~` is expanded to the home directory.
+ */
+export function resolveReferencePath(value: string, workspaceRoot: string): string {
+    if (value === '~' || value.startsWith('~/')) {
+        return path.join(os.homedir(), value.substring(1));
+    }
+    return path.resolve(workspaceRoot, value);
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import { Document } from 'yaml';
+import { OffsetRange, getNodeAtPath, itemAnchorRange, keyRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import { findPathReferences, resolveReferencePath } from './pathReferences';
+
+// The CLI uses this key when `config.sshprivatekey` is not set
+const defaultPrivateKey = 'id_rsa';
+
+/**
+ * Checks that the files and directories a document refers to exist below the
+ * workspace root, and that the workspace SSH private key is not accessible
+ * by other users.
+ */
+export class PolycratePathValidator {
+
+    public validate(ast: Document.Parsed, content: string, isWorkspace: boolean, workspaceRoot: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        for (const reference of findPathReferences(ast, isWorkspace)) {
+            const stat = statPath(resolveReferencePath(reference.value, workspaceRoot));
+            if (!stat) {
+                issues.push({
+                    message: `${reference.field} refers to '${reference.value}', which does not exist`,
+                    range: reference.range,
+                    severity: 'warning',
+                    rule: 'path-not-found'
+                });
+            } else if (reference.type === 'directory' ? !stat.isDirectory() : stat.isDirectory()) {
+                issues.push({
+                    message: `${reference.field} should name a ${reference.type}, but '${reference.value}' is ${stat.isDirectory() ? 'a directory' : 'a file'}`,
+                    range: reference.range,
+                    severity: 'warning',
+                    rule: 'path-not-found'
+                });
+            } else if (reference.field === 'config.sshprivatekey') {
+                issues.push(...this.checkKeyPermissions(reference.value, stat, reference.range));
+            }
+        }
+
+        if (isWorkspace && !getNodeAtPath(ast.contents, ['config', 'sshprivatekey'])) {
+            const stat = statPath(resolveReferencePath(defaultPrivateKey, workspaceRoot));
+            if (stat && stat.isFile()) {
+                issues.push(...this.checkKeyPermissions(defaultPrivateKey, stat, keyRange(ast.contents, 'config') || itemAnchorRange(ast.contents, content)));
+            }
+        }
+
+        return issues;
+    }
+
+    private checkKeyPermissions(keyPath: string, stat: fs.Stats, range: OffsetRange | undefined): ValidationIssue[] {
+        // ssh refuses keys that group or others can access; Windows has no such modes
+        if (process.platform === 'win32' || (stat.mode & 0o077) === 0) {
+            return [];
+        }
+        return [{
+            message: `SSH private key '${keyPath}' is accessible by other users (mode ${(stat.mode & 0o777).toString(8)}). Restrict it with 'chmod 600 ${keyPath}'`,
+            range,
+            severity: 'warning',
+            rule: 'ssh-key-permissions'
+        }];
+    }
+}
+
+function statPath(filePath: string): fs.Stats | undefined {
+    try {
+        return fs.statSync(filePath);
+    } catch (error) {
+        return undefined;
+    }
+}
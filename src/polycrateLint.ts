@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PolycrateLinter, SnapshotResult, findPolyFiles } from './polycrateLinter';
+import { RuleSettings } from './validationRules';
+import { CliFailedError, PolycrateCliService } from './cliService';
+import { FileReport, ReportFormat, countIssues, formatReport, reportFormats } from './lintReport';
+
+const usage = `Usage: polycrate-lint [options] <dir>
+
+Validates all .poly files below <dir> with the rules of the Polycrate VS Code
+extension. Exits with 1 if any error is reported.
+
+Options:
+  -f, --format <format>  Output format: ${reportFormats.join(', ')} (default: text)
+  -o, --output <file>    Write the report to a file instead of stdout
+  --cli <path>           Path of the Polycrate CLI (default: polycrate.cli.path or polycrate)
+  --no-cli               Skip the checks that need the Polycrate CLI
+  --verbose              Log validation details to stderr
+  -h, --help             Show this help
+
+Rule severities, extra schemas and rule packs are read from
+polycrate.validation.rules, polycrate.validation.schemas and
+polycrate.validation.rulePacks in <dir>/.vscode/settings.json.
+`;
+
+interface LintArguments {
+    dir: string;
+    format: ReportFormat;
+    output?: string;
+    cliPath?: string;
+    useCli: boolean;
+    verbose: boolean;
+    help?: boolean;
+}
+
+/** The `polycrate.*` settings of a workspace that apply outside the editor */
+interface WorkspaceSettings {
+    rules: RuleSettings;
+    schemas: { [fileType: string]: string[] };
+    rulePacks: string[];
+    cliPath: string;
+    cliTimeout: number;
+}
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Runs `polycrate-lint` and returns its exit code: 0 without errors, 1 if
+ * errors were reported and 2 if the arguments or files could not be used.
+ */
+export async function main(argv: string[]): Promise<number> {
+    let args: LintArguments;
+    try {
+        args = parseArguments(argv);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`polycrate-lint: ${error.message}\n\n${usage}`);
+            return 2;
+        }
+        throw error;
+    }
+    if (args.help) {
+        process.stdout.write(usage);
+        return 0;
+    }
+
+    const dir = path.resolve(args.dir);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        process.stderr.write(`polycrate-lint: ${dir} is not a directory\n`);
+        return 2;
+    }
+
+    const log = args.verbose ? (message: string) => process.stderr.write(`${message}\n`) : undefined;
+    const settings = readWorkspaceSettings(dir, log);
+    // One CLI run at a time, like a single validation in the editor
+    const cli = new PolycrateCliService(() => ({
+        path: args.cliPath || settings.cliPath,
+        timeout: settings.cliTimeout,
+        maxConcurrent: 1,
+        outputFormat: 'yaml'
+    }), log);
+    const useCli = args.useCli && await isCliAvailable(cli, log);
+    const snapshots = new Map<string, Promise<SnapshotResult>>();
+
+    const linter = new PolycrateLinter(path.resolve(__dirname, '..', 'schemas'), log);
+    const extraSchemas: { [fileType: string]: string[] } = {};
+    for (const fileType of Object.keys(settings.schemas)) {
+        extraSchemas[fileType] = settings.schemas[fileType].map(schemaPath => path.resolve(dir, schemaPath));
+    }
+
+    const reports: FileReport[] = [];
+    for (const filePath of findPolyFiles(dir)) {
+        const content = fs.readFileSync(filePath, 'utf8');
+        const issues = await linter.lint({ filePath, content }, {
+            ruleSettings: settings.rules,
+            extraSchemas,
+            rulePacks: settings.rulePacks.map(packPath => path.resolve(dir, packPath)),
+            getSnapshot: useCli ? workspaceRoot => {
+                let snapshot = snapshots.get(workspaceRoot);
+                if (!snapshot) {
+                    snapshot = takeSnapshot(cli, workspaceRoot);
+                    snapshots.set(workspaceRoot, snapshot);
+                }
+                return snapshot;
+            } : undefined
+        });
+        reports.push({ filePath, content, issues });
+    }
+
+    const report = formatReport(reports, args.format, dir);
+    if (args.output) {
+        fs.writeFileSync(args.output, report);
+    } else {
+        process.stdout.write(report);
+    }
+
+    return countIssues(reports, 'error') > 0 ? 1 : 0;
+}
+
+function parseArguments(argv: string[]): LintArguments {
+    const args: Partial<LintArguments> = { format: 'text', useCli: true, verbose: false };
+    const value = (i: number, option: string): string => {
+        if (i >= argv.length || argv[i].startsWith('-')) {
+            throw new UsageError(`${option} expects a value`);
+        }
+        return argv[i];
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '-f':
+            case '--format': {
+                const format = value(++i, arg) as ReportFormat;
+                if (!reportFormats.includes(format)) {
+                    throw new UsageError(`Unknown format '${format}'`);
+                }
+                args.format = format;
+                break;
+            }
+            case '-o':
+            case '--output':
+                args.output = value(++i, arg);
+                break;
+            case '--cli':
+                args.cliPath = value(++i, arg);
+                break;
+            case '--no-cli':
+                args.useCli = false;
+                break;
+            case '--verbose':
+                args.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                args.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option '${arg}'`);
+                }
+                if (args.dir) {
+                    throw new UsageError('Only one directory can be linted at a time');
+                }
+                args.dir = arg;
+        }
+    }
+
+    if (!args.dir && !args.help) {
+        throw new UsageError('Missing directory');
+    }
+    return args as LintArguments;
+}
+
+/**
+ * Reads the settings VS Code would apply to the workspace from
+ * `.vscode/settings.json`, which may contain comments and trailing commas.
+ */
+function readWorkspaceSettings(dir: string, log?: (message: string) => void): WorkspaceSettings {
+    const settings: WorkspaceSettings = { rules: {}, schemas: {}, rulePacks: [], cliPath: 'polycrate', cliTimeout: 30000 };
+    const settingsPath = path.join(dir, '.vscode', 'settings.json');
+    if (!fs.existsSync(settingsPath)) {
+        return settings;
+    }
+
+    try {
+        const json = fs.readFileSync(settingsPath, 'utf8')
+            .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, text) => text || '')
+            .replace(/,(\s*[}\]])/g, '$1');
+        const values = JSON.parse(json);
+        settings.rules = values['polycrate.validation.rules'] || settings.rules;
+        settings.schemas = values['polycrate.validation.schemas'] || settings.schemas;
+        settings.rulePacks = values['polycrate.validation.rulePacks'] || settings.rulePacks;
+        settings.cliPath = values['polycrate.cli.path'] || settings.cliPath;
+        settings.cliTimeout = values['polycrate.cli.timeout'] || settings.cliTimeout;
+    } catch (error) {
+        log?.(`Ignoring ${settingsPath}: ${error}`);
+    }
+    return settings;
+}
+
+async function isCliAvailable(cli: PolycrateCliService, log?: (message: string) => void): Promise<boolean> {
+    if (!await cli.isAvailable()) {
+        log?.('CLI not available, using local rules only');
+        return false;
+    }
+    return true;
+}
+
+async function takeSnapshot(cli: PolycrateCliService, workspaceRoot: string): Promise<SnapshotResult> {
+    try {
+        return { snapshot: await cli.getWorkspaceSnapshot(workspaceRoot) };
+    } catch (error) {
+        // Only a CLI that ran and rejected the workspace has errors worth showing
+        return error instanceof CliFailedError
+            ? { snapshot: null, failure: { message: error.message, stderr: error.stderr } }
+            : { snapshot: null };
+    }
+}
@@ -0,0 +1,879 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { Document, isMap } from 'yaml';
+import {
+    OffsetRange,
+    findNamedItem,
+    findPair,
+    getNodeAtPath,
+    getScalarValue,
+    getSeqItems,
+    itemAnchorRange,
+    keyRange,
+    parsePolyDocument,
+    valueRange
+} from './yamlAst';
+import { PolycrateFileType, PolycrateSchemaValidator } from './schemaValidator';
+import { PolycrateChangelogValidator } from './changelogValidator';
+import { ValidationIssue } from './validationIssue';
+import { RuleSettings, applyRuleSettings } from './validationRules';
+import { PolycrateTemplateValidator, TemplateContext } from './templateValidator';
+import { PolycrateBlockResolver } from './blockResolver';
+import { PolycrateWorkflowValidator } from './workflowValidator';
+import { PolycrateNameValidator, WorkspaceFile } from './nameValidator';
+import { PolycrateConfigValidator } from './configValidator';
+import { GlobalsFile, PolycrateSecretValidator } from './secretValidator';
+import { KindRuleTarget, PolycrateKindRuleValidator } from './kindRuleValidator';
+import { PolycrateActionPromptValidator } from './actionPromptValidator';
+import { PolycratePathValidator } from './pathValidator';
+import { PathReference, findPathReferences, resolveReferencePath } from './pathReferences';
+import { locateCliError, parseCliErrors } from './cliErrorParser';
+import { findFromReferences, getPinState } from './fromReferences';
+import { WorkspaceSnapshot } from './workspaceSnapshot';
+import { PolycrateWorkspaceModel, ReadFile, findWorkspaceRoot, isBlockConfigFile, readFileFromDisk } from './workspaceModel';
+
+/** A .poly file, either open in an editor or read from disk */
+export interface LintFile {
+    filePath: string;
+    content: string;
+}
+
+export interface SnapshotResult {
+    snapshot: WorkspaceSnapshot | null;
+    /** The CLI ran but rejected the workspace */
+    failure?: { message: string; stderr: string };
+}
+
+export interface LintOptions {
+    /** `polycrate.validation.rules` */
+    ruleSettings?: RuleSettings;
+    /** Absolute paths of additional schemas per file type (`polycrate.validation.schemas`) */
+    extraSchemas?: { [fileType: string]: string[] };
+    /** Absolute paths of additional kind rule packs (`polycrate.validation.rulePacks`) */
+    rulePacks?: string[];
+    /**
+     * Takes a workspace snapshot with the Polycrate CLI. Without it the
+     * CLI checks are replaced by their local fallbacks.
+     */
+    getSnapshot?: (workspaceRoot: string) => Promise<SnapshotResult>;
+    token?: { isCancellationRequested: boolean };
+}
+
+export interface WorkspaceContext {
+    workspaceRoot: string | null;
+    workspace: any;
+    model?: PolycrateWorkspaceModel;
+    resolver?: PolycrateBlockResolver;
+}
+
+/**
+ * What the validators of one run share. It is built once per file, so
+ * workspace.poly is read and parsed at most once per run.
+ */
+interface LintContext extends WorkspaceContext {
+    /** The file is a workspace.poly or .workspace */
+    isWorkspace: boolean;
+    /** The file is a block config of its workspace */
+    isBlock: boolean;
+    /** The workspace.poly of any other file, for edits and cross-file checks */
+    workspaceFile?: { filePath: string; content: string; ast: Document.Parsed };
+}
+
+/**
+ * Runs every Polycrate check on a single file without depending on VS Code,
+ * so the editor and `polycrate-lint` report exactly the same issues.
+ */
+export class PolycrateLinter {
+    private log: (message: string) => void;
+    private schemaValidator: PolycrateSchemaValidator;
+    private changelogValidator: PolycrateChangelogValidator;
+    private templateValidator: PolycrateTemplateValidator;
+    private workflowValidator: PolycrateWorkflowValidator;
+    private nameValidator: PolycrateNameValidator;
+    private configValidator: PolycrateConfigValidator;
+    private secretValidator: PolycrateSecretValidator;
+    private kindRuleValidator: PolycrateKindRuleValidator;
+    private actionPromptValidator: PolycrateActionPromptValidator;
+    private pathValidator: PolycratePathValidator;
+
+    /**
+     * `readFile` provides the content of other files of the workspace, such
+     * as workspace.poly; the language server passes unsaved editor content.
+     */
+    constructor(schemasDir: string, log: (message: string) => void = () => undefined, private readFile: ReadFile = readFileFromDisk) {
+        this.log = log;
+        this.schemaValidator = new PolycrateSchemaValidator(schemasDir);
+        this.changelogValidator = new PolycrateChangelogValidator();
+        this.templateValidator = new PolycrateTemplateValidator();
+        this.workflowValidator = new PolycrateWorkflowValidator();
+        this.nameValidator = new PolycrateNameValidator();
+        this.configValidator = new PolycrateConfigValidator();
+        this.secretValidator = new PolycrateSecretValidator();
+        this.kindRuleValidator = new PolycrateKindRuleValidator(path.join(schemasDir, 'kind-rules.json'));
+        this.actionPromptValidator = new PolycrateActionPromptValidator();
+        this.pathValidator = new PolycratePathValidator();
+    }
+
+    /**
+     * Validates a file and applies the rule settings. Returns an empty list
+     * if `token` is cancelled while waiting for the CLI, so callers can drop
+     * the stale result.
+     */
+    public async lint(file: LintFile, options: LintOptions = {}): Promise<ValidationIssue[]> {
+        const { filePath, content } = file;
+        const issues: ValidationIssue[] = [];
+        const token = options.token;
+
+        try {
+            // Parse once and share the AST between all validators so every
+            // issue can be positioned at the node that caused it
+            const ast = parsePolyDocument(content);
+            const context = this.createContext(ast, filePath);
+
+            // Basic YAML syntax validation
+            issues.push(...this.validateYamlSyntax(ast));
+
+            // JSON Schema validation runs locally, so it is applied with or without the CLI
+            issues.push(...this.validatePolycrateSchema(ast, file, context, options.extraSchemas || {}));
+
+            const fileName = path.basename(filePath);
+            if (fileName === 'CHANGELOG.poly') {
+                // Changelogs are not part of the workspace snapshot, so they are only validated locally
+                issues.push(...this.validateChangelog(ast, file, context));
+                return this.applyRules(file, issues, options);
+            }
+
+            // Template and workflow references are resolved against local files, not the CLI snapshot
+            issues.push(...this.validateTemplates(ast, file, context));
+            if (context.isWorkspace) {
+                issues.push(...this.validateWorkflows(ast, file, context));
+                issues.push(...this.validateConfigOverrides(ast, context));
+            }
+            if (context.isWorkspace || context.isBlock) {
+                issues.push(...this.validateFromFields(ast));
+            }
+            issues.push(...this.validateNames(ast, file, context));
+            issues.push(...this.validateActionPrompts(ast, file));
+            issues.push(...this.validatePaths(ast, file, context));
+            issues.push(...this.validateSecrets(ast, file, context));
+            issues.push(...this.validateKindRules(ast, file, context, options.rulePacks || []));
+
+            // Check if CLI validation applies
+            const isBlock = context.isBlock;
+            const isPolycrateFile = fileName === 'workspace.poly' || fileName === '.workspace' || isBlock;
+
+            if (isPolycrateFile && options.getSnapshot) {
+                if (token && token.isCancellationRequested) {
+                    return [];
+                }
+                // Always use CLI validation for Polycrate files if CLI is available
+                const cliValidation = await this.validateWithCli(file, ast, context, options.getSnapshot);
+                if (token && token.isCancellationRequested) {
+                    return [];
+                }
+                this.log(`CLI validation returned ${cliValidation.length} issues`);
+                issues.push(...cliValidation);
+            } else if (isBlock) {
+                // Fallback to rules the CLI would otherwise report
+                this.log('Falling back to local block rules');
+                issues.push(...this.validateActions(ast.contents, content));
+            }
+
+        } catch (error) {
+            this.log(`Error validating file: ${error}`);
+        }
+
+        return this.applyRules(file, issues, options);
+    }
+
+    /**
+     * Issues of the validators that offer quick fixes (`config` overrides and
+     * plaintext secrets), with the rule settings applied.
+     */
+    public lintFixable(file: LintFile, options: LintOptions = {}): ValidationIssue[] {
+        const ast = parsePolyDocument(file.content);
+        const context = this.createContext(ast, file.filePath);
+        const issues: ValidationIssue[] = [];
+        if (context.isWorkspace) {
+            issues.push(...this.validateConfigOverrides(ast, context));
+        }
+        if (path.basename(file.filePath) !== 'CHANGELOG.poly') {
+            issues.push(...this.validateSecrets(ast, file, context));
+        }
+        return this.applyRules(file, issues, options);
+    }
+
+    /**
+     * Files and directories a workspace.poly or block.poly refers to, with
+     * their absolute paths.
+     */
+    public getPathReferences(file: LintFile): (PathReference & { resolvedPath: string })[] {
+        const ast = parsePolyDocument(file.content);
+        const context = this.createContext(ast, file.filePath);
+        const workspaceRoot = this.getPathRoot(context, file.filePath);
+        if (!workspaceRoot) {
+            return [];
+        }
+        return findPathReferences(ast, context.isWorkspace)
+            .map(reference => ({ ...reference, resolvedPath: resolveReferencePath(reference.value, workspaceRoot) }));
+    }
+
+    /**
+     * Returns the parsed workspace.poly that a file belongs to, together
+     * with its layout and a resolver for the blocks of that workspace.
+     */
+    public getWorkspaceContext(ast: Document.Parsed, filePath: string): WorkspaceContext {
+        return this.createContext(ast, filePath);
+    }
+
+    private createContext(ast: Document.Parsed, filePath: string): LintContext {
+        const fileName = path.basename(filePath);
+        const isWorkspace = this.isWorkspaceDocument(ast, fileName);
+        const workspaceRoot = this.findWorkspaceRoot(path.dirname(filePath));
+
+        let workspace: any;
+        let workspaceFile: LintContext['workspaceFile'];
+        if (isWorkspace) {
+            workspace = ast.toJS() || {};
+        } else if (workspaceRoot) {
+            workspaceFile = this.readWorkspaceFile(path.join(workspaceRoot, 'workspace.poly'));
+            workspace = workspaceFile ? workspaceFile.ast.toJS() || undefined : undefined;
+        }
+
+        if (!workspaceRoot) {
+            return { workspaceRoot, workspace, isWorkspace, isBlock: fileName === 'block.poly' };
+        }
+        // An open workspace.poly describes the layout, even if it is not saved yet
+        const model = new PolycrateWorkspaceModel(workspaceRoot, workspace);
+        return {
+            workspaceRoot,
+            workspace,
+            model,
+            resolver: new PolycrateBlockResolver(model, this.readFile),
+            isWorkspace,
+            // Files named after `config.blocksconfig` below blocksroot are block configs
+            isBlock: isBlockConfigFile(filePath, model),
+            workspaceFile
+        };
+    }
+
+    public findWorkspaceRoot(startDir: string): string | null {
+        try {
+            const workspaceRoot = findWorkspaceRoot(startDir);
+            this.log(workspaceRoot ? `Found workspace root: ${workspaceRoot}` : `No workspace root found starting from: ${startDir}`);
+            return workspaceRoot;
+        } catch (error) {
+            this.log(`Error finding workspace root: ${error}`);
+            return null;
+        }
+    }
+
+    private applyRules(file: LintFile, issues: ValidationIssue[], options: LintOptions): ValidationIssue[] {
+        return applyRuleSettings(issues, file.content, options.ruleSettings || {});
+    }
+
+    private validateYamlSyntax(ast: Document.Parsed): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        // Errors and warnings carry [start, end] offsets into the source
+        for (const error of ast.errors) {
+            issues.push({
+                message: `YAML syntax error: ${error.message}`,
+                range: { start: error.pos[0], end: error.pos[1] },
+                severity: 'error',
+                rule: 'yaml-syntax'
+            });
+        }
+
+        for (const warning of ast.warnings) {
+            issues.push({
+                message: `YAML warning: ${warning.message}`,
+                range: { start: warning.pos[0], end: warning.pos[1] },
+                severity: 'warning',
+                rule: 'yaml-warning'
+            });
+        }
+
+        return issues;
+    }
+
+    private validatePolycrateSchema(ast: Document.Parsed, file: LintFile, context: LintContext, extraSchemas: { [fileType: string]: string[] }): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            // Determine file type based on filename or content
+            const fileName = path.basename(file.filePath);
+            let fileType: PolycrateFileType | undefined = PolycrateSchemaValidator.getFileType(fileName);
+            if (!fileType && context.isBlock) {
+                fileType = 'block';
+            }
+            if (!fileType && isMap(ast.contents)) {
+                if (findPair(ast.contents, 'blocks') !== undefined) {
+                    fileType = 'workspace';
+                } else if (findPair(ast.contents, 'actions') !== undefined) {
+                    fileType = 'block';
+                }
+            }
+
+            if (!fileType) {
+                return issues;
+            }
+
+            issues.push(...this.schemaValidator.validate(fileType, ast, file.content, extraSchemas[fileType] || []));
+            if (fileType === 'workspace') {
+                issues.push(...this.validateBlockKinds(ast, file.content, context));
+            }
+
+        } catch (error: any) {
+            this.log(`Schema validation error: ${error.message}`);
+        }
+
+        return issues;
+    }
+
+    /**
+     * Block entries need a `kind` unless they get one from `from` or from the
+     * local block of the same name, which the resolved block and the CLI check.
+     */
+    private validateBlockKinds(ast: Document.Parsed, content: string, context: LintContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        for (const block of getSeqItems(ast.contents, ['blocks'])) {
+            if (!isMap(block) || findPair(block, 'kind') || findPair(block, 'from')) {
+                continue;
+            }
+            const name = getScalarValue(block, 'name');
+            const resolver = context.resolver;
+            const directory = name && resolver ? resolver.findBlockDirectory(name) : undefined;
+            if (directory && resolver && resolver.loadBlock(directory)) {
+                continue;
+            }
+            issues.push({
+                message: 'Missing required field: kind',
+                range: itemAnchorRange(block, content),
+                severity: 'error',
+                rule: 'schema-required'
+            });
+        }
+        return issues;
+    }
+
+    private validateChangelog(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            // Compare against the version declared in the sibling block config
+            let blockVersion: string | undefined;
+            const { model } = context;
+            const blockPolyPath = path.join(path.dirname(file.filePath), model ? model.blockConfigFile : 'block.poly');
+            if (fs.existsSync(blockPolyPath)) {
+                const blockAst = parsePolyDocument(this.readFile(blockPolyPath));
+                blockVersion = getScalarValue(blockAst.contents, 'version');
+            }
+
+            issues.push(...this.changelogValidator.validate(ast, file.content, blockVersion));
+        } catch (error) {
+            this.log(`Changelog validation error: ${error}`);
+        }
+
+        return issues;
+    }
+
+    private validateTemplates(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            issues.push(...this.templateValidator.validate(ast, file.content, this.toTemplateContext(ast, context)));
+        } catch (error) {
+            this.log(`Template validation error: ${error}`);
+        }
+
+        return issues;
+    }
+
+    /**
+     * What `.Block` and `.Workspace` refer to in the template expressions
+     * of a file.
+     */
+    public getTemplateContext(ast: Document.Parsed, filePath: string): TemplateContext {
+        return this.toTemplateContext(ast, this.createContext(ast, filePath));
+    }
+
+    private toTemplateContext(ast: Document.Parsed, lintContext: LintContext): TemplateContext {
+        const { workspace, resolver } = lintContext;
+
+        const context: TemplateContext = {
+            workspace,
+            globals: workspace ? (workspace.config && workspace.config.globals) || {} : undefined,
+            scopeAt: () => ({ hasBlock: false })
+        };
+
+        // Fields inherited via 'from' are only known if the parent block is available locally
+        const resolve = (entry: any) => resolver ? resolver.resolveBlock(entry) : (entry.from ? undefined : entry);
+
+        if (lintContext.isBlock) {
+            const block = resolve(ast.toJS() || {});
+            context.scopeAt = () => ({ hasBlock: true, block, blockConfig: block ? block.config || {} : undefined });
+        } else if (workspace) {
+            const blockItems = getSeqItems(ast.contents, ['blocks']);
+            context.scopeAt = (offset: number) => {
+                const item = blockItems.find(node => node.range && node.range[0] <= offset && offset <= node.range[1]);
+                if (!item) {
+                    return { hasBlock: false };
+                }
+                const block = resolve(item.toJSON() || {});
+                return { hasBlock: true, block, blockConfig: block ? block.config || {} : undefined };
+            };
+        }
+
+        return context;
+    }
+
+    private validateWorkflows(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            issues.push(...this.workflowValidator.validate(ast, file.content, context.resolver));
+        } catch (error) {
+            this.log(`Workflow validation error: ${error}`);
+        }
+
+        return issues;
+    }
+
+    private validateConfigOverrides(ast: Document.Parsed, context: LintContext): ValidationIssue[] {
+        try {
+            const { resolver } = context;
+            return resolver ? this.configValidator.validate(ast, resolver) : [];
+        } catch (error) {
+            this.log(`Config override validation error: ${error}`);
+            return [];
+        }
+    }
+
+    private validateNames(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            const { filePath, content } = file;
+            const { resolver } = context;
+
+            if (context.isWorkspace) {
+                issues.push(...this.nameValidator.validateWorkspace(ast, content, resolver));
+            } else if (context.isBlock) {
+                const workspaceFile: WorkspaceFile | undefined = context.workspaceFile
+                    && { filePath: context.workspaceFile.filePath, ast: context.workspaceFile.ast };
+                issues.push(...this.nameValidator.validateBlock(ast, content, filePath, resolver, workspaceFile));
+            }
+        } catch (error) {
+            this.log(`Name validation error: ${error}`);
+        }
+
+        return issues;
+    }
+
+    private validateActionPrompts(ast: Document.Parsed, file: LintFile): ValidationIssue[] {
+        try {
+            return this.actionPromptValidator.validate(ast, file.content);
+        } catch (error) {
+            this.log(`Action prompt validation error: ${error}`);
+            return [];
+        }
+    }
+
+    private validatePaths(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        try {
+            const workspaceRoot = this.getPathRoot(context, file.filePath);
+            if (!workspaceRoot) {
+                return [];
+            }
+            return this.pathValidator.validate(ast, file.content, context.isWorkspace, workspaceRoot);
+        } catch (error) {
+            this.log(`Path validation error: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * The directory paths in a workspace.poly or block.poly are relative to,
+     * or null for other files.
+     */
+    private getPathRoot(context: LintContext, filePath: string): string | null {
+        if (context.isWorkspace) {
+            return path.dirname(filePath);
+        }
+        return context.isBlock ? context.workspaceRoot : null;
+    }
+
+    private validateKindRules(ast: Document.Parsed, file: LintFile, context: LintContext, rulePacks: string[]): ValidationIssue[] {
+        try {
+            const { workspace, resolver } = context;
+            const targets: KindRuleTarget[] = [];
+            const addTarget = (entry: any, node: any) => {
+                if (!entry || typeof entry !== 'object') {
+                    return;
+                }
+                // Inherited fields are only known if the whole `from` chain is available locally
+                const block = resolver ? resolver.resolveBlock(entry) : (entry.from ? undefined : entry);
+                if (block) {
+                    targets.push({ block, node, workspace });
+                }
+            };
+
+            if (context.isBlock) {
+                const block = ast.toJS();
+                if (!context.workspaceFile || !block || typeof block !== 'object') {
+                    addTarget(block, ast.contents);
+                } else {
+                    // Workspace entries complete a block, e.g. with config.namespace, so
+                    // the block is checked as each entry that uses it is deployed
+                    for (const entry of getSeqItems(context.workspaceFile.ast.contents, ['blocks'])) {
+                        if (getScalarValue(entry, 'name') === block.name) {
+                            addTarget(entry.toJSON(), ast.contents);
+                        }
+                    }
+                }
+            } else if (context.isWorkspace) {
+                for (const item of getSeqItems(ast.contents, ['blocks'])) {
+                    addTarget(item.toJSON(), item);
+                }
+            }
+
+            return targets.length > 0 ? this.kindRuleValidator.validate(targets, file.content, rulePacks) : [];
+        } catch (error) {
+            this.log(`Kind rule validation error: ${error}`);
+            return [];
+        }
+    }
+
+    private validateSecrets(ast: Document.Parsed, file: LintFile, context: LintContext): ValidationIssue[] {
+        try {
+            const { content } = file;
+
+            // Secrets are moved to the globals of the workspace the file belongs to
+            const globalsFile: GlobalsFile | undefined = context.isWorkspace ? { ast, content } : context.workspaceFile;
+
+            return this.secretValidator.validate(ast, content, context.isWorkspace, globalsFile);
+        } catch (error) {
+            this.log(`Secret validation error: ${error}`);
+            return [];
+        }
+    }
+
+    private isWorkspaceDocument(ast: Document.Parsed, fileName: string): boolean {
+        if (fileName === 'workspace.poly' || fileName === '.workspace') {
+            return true;
+        }
+        return !PolycrateSchemaValidator.getFileType(fileName) && findPair(ast.contents, 'blocks') !== undefined;
+    }
+
+    /**
+     * Reads and parses the workspace.poly at `filePath`, or returns undefined
+     * if it is missing or unreadable.
+     */
+    private readWorkspaceFile(filePath: string): LintContext['workspaceFile'] {
+        try {
+            if (!fs.existsSync(filePath)) {
+                return undefined;
+            }
+            const content = this.readFile(filePath);
+            return { filePath, content, ast: parsePolyDocument(content) };
+        } catch (error) {
+            this.log(`Error loading ${filePath}: ${error}`);
+            return undefined;
+        }
+    }
+
+    private validateActions(owner: unknown, content: string): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        for (const action of getSeqItems(owner, ['actions'])) {
+            const actionName = getScalarValue(action, 'name');
+
+            // Check that action has either script or playbook
+            if (!findPair(action, 'script') && !findPair(action, 'playbook')) {
+                issues.push({
+                    message: `Action '${actionName || 'unnamed'}' should have either 'script' or 'playbook' field`,
+                    range: itemAnchorRange(action, content),
+                    severity: 'warning',
+                    rule: 'action-missing-script'
+                });
+            }
+        }
+
+        return issues;
+    }
+
+    private async validateWithCli(file: LintFile, ast: Document.Parsed, context: LintContext, getSnapshot: (workspaceRoot: string) => Promise<SnapshotResult>): Promise<ValidationIssue[]> {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            const filePath = file.filePath;
+            const fileName = path.basename(filePath);
+            const isBlock = context.isBlock;
+            let workingDir = path.dirname(filePath);
+
+            // For ALL .poly files, find the workspace root
+            if (isBlock || fileName === 'workspace.poly') {
+                const foundWorkspaceRoot = context.workspaceRoot;
+                if (!foundWorkspaceRoot) {
+                    this.log(`Could not find workspace root for ${fileName} validation`);
+                    return issues;
+                }
+                workingDir = foundWorkspaceRoot;
+                this.log(`Using workspace root: ${workingDir} for ${fileName}`);
+            }
+
+            this.log(`Attempting CLI validation for ${fileName} in ${workingDir}`);
+
+            // Validate all .poly files using workspace snapshot
+            if (fileName === 'workspace.poly' || fileName === '.workspace' || isBlock) {
+                this.log(`Validating ${fileName} with CLI from workspace: ${workingDir}`);
+                const { snapshot, failure } = await getSnapshot(workingDir);
+                if (snapshot) {
+                    this.log('Got workspace snapshot, validating...');
+
+                    if (isBlock) {
+                        // The snapshot lists local blocks by their declared name
+                        const blockName = getScalarValue(ast.contents, 'name') || path.basename(path.dirname(filePath));
+                        this.log(`Validating specific block: ${blockName}`);
+                        issues.push(...this.validateBlockInWorkspaceSnapshot(snapshot, blockName, ast, file));
+                    } else {
+                        // workspace.poly or .workspace file
+                        issues.push(...this.validateWorkspaceSnapshot(snapshot, ast, file));
+                    }
+                } else if (failure) {
+                    // The CLI rejected the workspace; show its errors where they point to
+                    issues.push(...this.cliErrorsToIssues(failure, workingDir, ast, file));
+                } else {
+                    this.log('Failed to get workspace snapshot');
+                }
+            }
+
+        } catch (error) {
+            this.log(`CLI validation error: ${error}`);
+        }
+
+        return issues;
+    }
+
+    /**
+     * Maps CLI errors that refer to `file` to issues. Errors without
+     * a file are attributed to workspace.poly and pinned to its first line
+     * when they cannot be located more precisely.
+     */
+    private cliErrorsToIssues(failure: { message: string; stderr: string }, workspaceRoot: string, ast: Document.Parsed, file: LintFile): ValidationIssue[] {
+        const { filePath, content } = file;
+        const isWorkspaceFile = filePath === path.join(workspaceRoot, 'workspace.poly');
+        const firstLineEnd = content.indexOf('\n');
+        const topRange: OffsetRange = { start: 0, end: firstLineEnd === -1 ? content.length : firstLineEnd };
+
+        const cliErrors = parseCliErrors(failure.stderr, workspaceRoot);
+        if (cliErrors.length === 0) {
+            cliErrors.push({ message: failure.message });
+        }
+
+        return cliErrors
+            .filter(cliError => cliError.filePath ? cliError.filePath === filePath : isWorkspaceFile)
+            .map(cliError => ({
+                message: `Polycrate CLI: ${cliError.message}`,
+                range: locateCliError(cliError, ast, content) || topRange,
+                severity: 'error' as const,
+                rule: 'cli-error'
+            }));
+    }
+
+    private validateWorkspaceSnapshot(snapshot: any, ast: Document.Parsed, file: LintFile): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        const content = file.content;
+
+        // The snapshot has workspace info in nested structure
+        const workspace = snapshot.workspace || snapshot;
+
+        // Validate workspace-level issues
+        if (!workspace.name) {
+            issues.push({
+                message: 'Workspace name is missing',
+                range: keyRange(root, 'name'),
+                severity: 'error',
+                rule: 'workspace-missing-field'
+            });
+        }
+
+        if (!workspace.organization) {
+            issues.push({
+                message: 'Workspace organization is missing',
+                range: keyRange(root, 'organization'),
+                severity: 'error',
+                rule: 'workspace-missing-field'
+            });
+        }
+
+        // Validate blocks from snapshot (these include defaults and computed values)
+        if (workspace.blocks && Array.isArray(workspace.blocks)) {
+            for (const block of workspace.blocks) {
+                // The CLI snapshot includes all blocks with their defaults
+                // So we only need to check for fundamental issues
+                if (!block.name) {
+                    issues.push({
+                        message: `Block is missing name`,
+                        range: keyRange(root, 'blocks'),
+                        severity: 'error',
+                        rule: 'block-missing-name'
+                    });
+                    continue;
+                }
+
+                // Note: We don't validate 'from' here - it's done locally in validateFromFields
+                // Note: We don't validate 'kind' here because the CLI snapshot
+                // includes computed values and defaults, so missing 'kind'
+                // would have been caught by the CLI itself
+
+                // Check for actions without proper definition. Snapshot actions
+                // are matched to the document by index within the block entry.
+                const blockNode = findNamedItem(root, 'blocks', block.name);
+                if (block.actions && Array.isArray(block.actions)) {
+                    block.actions.forEach((action: any, i: number) => {
+                        if (!action.name) {
+                            const actionNode = getNodeAtPath(blockNode, ['actions', i]);
+                            issues.push({
+                                message: `Action in block '${block.name}' is missing name`,
+                                range: itemAnchorRange(actionNode, content) || itemAnchorRange(blockNode, content),
+                                severity: 'error',
+                                rule: 'action-missing-name'
+                            });
+                        }
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * `from` references without a pinned version. They are checked in the
+     * document, as the CLI snapshot may normalize the values.
+     */
+    private validateFromFields(ast: Document.Parsed): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        try {
+            for (const reference of findFromReferences(ast)) {
+                this.log(`Validating 'from' field for block '${reference.blockName}': ${reference.from}`);
+                issues.push(...this.validateFromValue(reference.blockName, reference.from, reference.range));
+            }
+        } catch (error) {
+            this.log(`Error validating 'from' fields: ${error}`);
+        }
+
+        return issues;
+    }
+
+    private validateFromValue(blockName: string, from: string, range: OffsetRange | undefined): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const pinState = getPinState(from);
+
+        if (pinState === 'latest') {
+            issues.push({
+                message: `Block '${blockName}' uses 'from: ${from}' with 'latest' tag. Pin a specific version for reproducible builds`,
+                range,
+                severity: 'warning',
+                rule: 'from-latest-tag'
+            });
+        } else if (pinState === 'unversioned') {
+            issues.push({
+                message: `Block '${blockName}' uses 'from: ${from}' without specifying a version. Pin a specific version tag`,
+                range,
+                severity: 'warning',
+                rule: 'from-missing-version'
+            });
+        }
+
+        return issues;
+    }
+
+    private validateBlockInWorkspaceSnapshot(snapshot: any, blockName: string, ast: Document.Parsed, file: LintFile): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        const content = file.content;
+
+        // The snapshot has workspace info in nested structure
+        const workspace = snapshot.workspace || snapshot;
+
+        // Find the specific block in the workspace snapshot
+        if (workspace.blocks && Array.isArray(workspace.blocks)) {
+            const block = workspace.blocks.find((b: any) => b.name === blockName);
+
+            if (!block) {
+                // Block not found in workspace - this could be an issue
+                this.log(`Block '${blockName}' not found in workspace snapshot`);
+                issues.push({
+                    message: `Block '${blockName}' is not recognized by the workspace`,
+                    range: valueRange(root, 'name') || itemAnchorRange(root, content),
+                    severity: 'warning',
+                    rule: 'block-not-in-workspace'
+                });
+                return issues;
+            }
+
+            this.log(`Found block '${blockName}' in workspace snapshot with kind: ${block.kind || 'undefined'}`);
+
+            // The CLI snapshot includes all blocks with their defaults and computed values
+            // So we only need to check for fundamental issues that the CLI would catch
+            if (!block.name) {
+                issues.push({
+                    message: `Block is missing name`,
+                    range: keyRange(root, 'name') || itemAnchorRange(root, content),
+                    severity: 'error',
+                    rule: 'block-missing-name'
+                });
+            }
+
+            // Note: We don't validate 'from' field here - it's done locally in validateFromFields
+            // to ensure each block is validated independently based on the original document
+
+            // Note: We don't validate 'kind' here because the CLI snapshot
+            // includes computed values and defaults. If the block appears in the
+            // snapshot, it means the CLI was able to process it successfully.
+
+            // Check for actions without proper definition
+            if (block.actions && Array.isArray(block.actions)) {
+                block.actions.forEach((action: any, i: number) => {
+                    if (!action.name) {
+                        const actionNode = getNodeAtPath(root, ['actions', i]);
+                        issues.push({
+                            message: `Action in block '${block.name}' is missing name`,
+                            range: itemAnchorRange(actionNode, content) || keyRange(root, 'actions'),
+                            severity: 'error',
+                            rule: 'action-missing-name'
+                        });
+                    }
+                });
+            }
+        } else {
+            this.log('No blocks found in workspace snapshot');
+        }
+
+        return issues;
+    }
+}
+
+/**
+ * All files the editor validates in workspace scope: `*.poly` and
+ * `.workspace`. Hidden directories and node_modules are skipped.
+ */
+export function findPolyFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                files.push(...findPolyFiles(entryPath));
+            }
+        } else if (entry.name.endsWith('.poly') || entry.name === '.workspace') {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
@@ -0,0 +1,7 @@
+/**
+ * Requests between the extension and the Polycrate language server that are
+ * not part of the language server protocol.
+ */
+
+/** Validates every .poly file of the workspace folders; returns the number of files */
+export const validateWorkspaceRequest = 'polycrate/validateWorkspace';
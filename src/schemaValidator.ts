@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { Document } from 'yaml';
+import { getNodeAtPath, itemAnchorRange, keyRange, nodeRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+
+export type PolycrateFileType = 'workspace' | 'block' | 'changelog';
+
+/**
+ * Validates parsed .poly documents against the bundled JSON Schemas and any
+ * additional schemas configured via `polycrate.validation.schemas`.
+ */
+export class PolycrateSchemaValidator {
+    private ajv: Ajv;
+    private bundled = new Map<PolycrateFileType, ValidateFunction>();
+    private extra = new Map<string, { mtime: number; validate: ValidateFunction }>();
+
+    constructor(private schemaDir: string) {
+        // strict mode is off so organization schemas may use custom keywords
+        this.ajv = new Ajv({ allErrors: true, strict: false });
+        this.ajv.addSchema(this.readSchema(path.join(schemaDir, 'block.schema.json')));
+    }
+
+    public static getFileType(fileName: string): PolycrateFileType | undefined {
+        switch (fileName) {
+            case 'workspace.poly':
+            case '.workspace':
+                return 'workspace';
+            case 'block.poly':
+                return 'block';
+            case 'CHANGELOG.poly':
+                return 'changelog';
+            default:
+                return undefined;
+        }
+    }
+
+    public validate(fileType: PolycrateFileType, ast: Document.Parsed, content: string, extraSchemaPaths: string[] = []): ValidationIssue[] {
+        const data = ast.toJS();
+        if (data === null || data === undefined) {
+            return [];
+        }
+
+        const issues: ValidationIssue[] = [];
+        const validators = [this.getBundledValidator(fileType)];
+        for (const schemaPath of extraSchemaPaths) {
+            try {
+                validators.push(this.getExtraValidator(schemaPath));
+            } catch (error) {
+                issues.push({
+                    message: `Could not load schema '${schemaPath}': ${error}`,
+                    range: undefined,
+                    severity: 'warning',
+                    rule: 'schema-load-failed'
+                });
+            }
+        }
+
+        for (const validate of validators) {
+            if (!validate(data) && validate.errors) {
+                issues.push(...validate.errors.map(error => this.toIssue(error, ast, content)));
+            }
+        }
+
+        return issues;
+    }
+
+    private getBundledValidator(fileType: PolycrateFileType): ValidateFunction {
+        let validate = this.bundled.get(fileType);
+        if (!validate) {
+            if (fileType === 'block') {
+                validate = this.ajv.getSchema('https://polycrate.io/schemas/block.schema.json') as ValidateFunction;
+            } else {
+                validate = this.ajv.compile(this.readSchema(path.join(this.schemaDir, `${fileType}.schema.json`)));
+            }
+            this.bundled.set(fileType, validate);
+        }
+        return validate;
+    }
+
+    private getExtraValidator(schemaPath: string): ValidateFunction {
+        // Recompile when the schema file changes on disk
+        const mtime = fs.statSync(schemaPath).mtimeMs;
+        const cached = this.extra.get(schemaPath);
+        if (cached && cached.mtime === mtime) {
+            return cached.validate;
+        }
+
+        const schema = this.readSchema(schemaPath);
+        // Organization schemas are compiled without their $id so that several
+        // versions of the same file never collide in the ajv registry
+        delete schema.$id;
+        const validate = this.ajv.compile(schema);
+        this.extra.set(schemaPath, { mtime, validate });
+        return validate;
+    }
+
+    private readSchema(schemaPath: string): any {
+        return JSON.parse(fs.readFileSync(schemaPath, 'utf8'));
+    }
+
+    private toIssue(error: ErrorObject, ast: Document.Parsed, content: string): ValidationIssue {
+        const yamlPath = error.instancePath
+            .split('/')
+            .slice(1)
+            .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .map(segment => /^\d+$/.test(segment) ? Number(segment) : segment);
+        const node = getNodeAtPath(ast.contents, yamlPath);
+        const field = yamlPath.length > 0 ? String(yamlPath[yamlPath.length - 1]) : 'document';
+
+        switch (error.keyword) {
+            case 'required': {
+                const missing = error.params.missingProperty;
+                return {
+                    message: `Missing required field: ${missing}`,
+                    range: itemAnchorRange(node, content),
+                    severity: 'error',
+                    rule: 'schema-required'
+                };
+            }
+            case 'additionalProperties': {
+                const unknown = error.params.additionalProperty;
+                return {
+                    message: `Unknown field: ${unknown}`,
+                    range: keyRange(node, unknown),
+                    severity: 'warning',
+                    rule: 'schema-unknown-field'
+                };
+            }
+            case 'enum':
+                return {
+                    message: `Invalid ${field} value: ${getNodeValue(node)}. Valid values: ${error.params.allowedValues.join(', ')}`,
+                    range: nodeRange(node),
+                    severity: 'warning',
+                    rule: 'schema-enum'
+                };
+            case 'type': {
+                const expected = Array.isArray(error.params.type) ? error.params.type.join(' or ') : error.params.type;
+                return {
+                    message: `Field '${field}' should be ${expected === 'object' ? 'an object' : `of type ${expected}`}`,
+                    range: nodeRange(node),
+                    severity: 'error',
+                    rule: 'schema-type'
+                };
+            }
+            default:
+                return {
+                    message: `Field '${field}' ${error.message}`,
+                    range: nodeRange(node),
+                    severity: 'error',
+                    rule: 'schema-invalid'
+                };
+        }
+    }
+}
+
+function getNodeValue(node: any): string {
+    return node && 'value' in node ? String(node.value) : '';
+}
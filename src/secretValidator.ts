@@ -0,0 +1,267 @@
+import { Document, Node, Scalar, YAMLMap, isMap, isPair, isScalar, isSeq, visit } from 'yaml';
+import { OffsetRange, YamlPath, findPair, getNodeAtPath, getScalarValue, nodeRange } from './yamlAst';
+import { FileEdit, IssueFix, ValidationIssue } from './validationIssue';
+
+/** The workspace.poly that moved secrets are added to */
+export interface GlobalsFile {
+    ast: Document.Parsed;
+    content: string;
+    /** Undefined if the validated document is the workspace.poly itself */
+    filePath?: string;
+}
+
+// Words that name a credential when they end a key, e.g. `password`, `admin_password`, `apiToken`
+const secretKeyWords = ['password', 'passwd', 'pwd', 'pass', 'token', 'secret', 'key', 'apikey', 'credentials'];
+// Keys that refer to a secret rather than holding it, e.g. `existingSecret: postgres-auth`
+const referenceKeyWords = ['existing', 'public'];
+// Words that make a `key` a credential, e.g. `api_key` but not `cache_key`
+const credentialKeyWords = ['api', 'access', 'secret', 'private', 'auth'];
+
+const tokenPatterns: { name: string; pattern: RegExp }[] = [
+    { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/ },
+    { name: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/ },
+    { name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+    { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+    { name: 'Stripe key', pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}/ },
+    { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/ },
+    { name: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}/ },
+    { name: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ }
+];
+
+// Random base64 or alphanumeric strings of this length reach about 4.2 bits per character
+const minEntropyLength = 24;
+const minEntropy = 4.0;
+
+/**
+ * Flags values that look like credentials committed in plain text: values of
+ * keys such as `password` or `token`, strings with well-known token prefixes
+ * and long random strings. Values under `config.globals` of workspace.poly are
+ * skipped, as that is where the quick fix moves them to.
+ */
+export class PolycrateSecretValidator {
+
+    public validate(ast: Document.Parsed, content: string, isWorkspace: boolean, globalsFile: GlobalsFile | undefined): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        visit(ast, {
+            Scalar(key, node, ancestors) {
+                if (key === 'key' || node.value === null || node.value === undefined || typeof node.value === 'boolean' || !node.range) {
+                    return;
+                }
+                const yamlPath = toYamlPath([...ancestors, node]);
+                if (isWorkspace && yamlPath[0] === 'config' && yamlPath[1] === 'globals') {
+                    return;
+                }
+                const value = String(node.value);
+                // Template expressions and environment variables are resolved elsewhere
+                if (value.trim() === '' || value.includes('{{') || /^\$\{?\w+\}?$/.test(value)) {
+                    return;
+                }
+
+                const keyName = [...yamlPath].reverse().find((segment): segment is string => typeof segment === 'string') || '';
+                // Block scalars end after their line break, which the replacement must keep
+                let end = node.range[1];
+                while (end > node.range[0] && content[end - 1] === '\n') {
+                    end--;
+                }
+                const range: OffsetRange = { start: node.range[0], end };
+                const token = tokenPatterns.find(candidate => candidate.pattern.test(value));
+                let issue: ValidationIssue | undefined;
+
+                if (token) {
+                    issue = {
+                        message: `Value of '${keyName}' contains what looks like a ${token.name}. Do not commit credentials in .poly files`,
+                        range,
+                        severity: 'warning',
+                        rule: 'secret-token'
+                    };
+                } else if (typeof key !== 'number' && isSecretKey(keyName, value)) {
+                    issue = {
+                        message: `'${keyName}' holds a plaintext secret. Reference it from the workspace globals instead`,
+                        range,
+                        severity: 'warning',
+                        rule: 'secret-plaintext'
+                    };
+                } else if (typeof node.value === 'string' && looksRandom(value)) {
+                    issue = {
+                        message: `Value of '${keyName}' looks like a generated secret (high entropy)`,
+                        range,
+                        severity: 'info',
+                        rule: 'secret-high-entropy'
+                    };
+                }
+
+                if (issue) {
+                    issue.fix = globalsFile && createMoveFix(ast, content, node, yamlPath, range, globalsFile);
+                    issues.push(issue);
+                }
+            }
+        });
+
+        return issues;
+    }
+}
+
+function toYamlPath(chain: readonly unknown[]): YamlPath {
+    const yamlPath: YamlPath = [];
+    for (let i = 0; i < chain.length - 1; i++) {
+        const parent = chain[i];
+        const child = chain[i + 1];
+        if (isPair(parent) && parent.value === child && isScalar(parent.key)) {
+            yamlPath.push(String(parent.key.value));
+        } else if (isSeq(parent)) {
+            yamlPath.push(parent.items.indexOf(child));
+        }
+    }
+    return yamlPath;
+}
+
+function isSecretKey(key: string, value: string): boolean {
+    const words = key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().split(/[^a-z0-9]+/).filter(word => word);
+    const last = words[words.length - 1];
+    if (!last || words.some(word => referenceKeyWords.includes(word))) {
+        return false;
+    }
+    if (!secretKeyWords.includes(last) && !/(password|passwd|token|secret|apikey)$/.test(last)) {
+        return false;
+    }
+    if (last === 'key' || last.endsWith('key')) {
+        // Key files are referenced by path
+        if (/^(~|\.{1,2})?\//.test(value) || /\.(pem|key|crt|pub|p12)$/.test(value)) {
+            return false;
+        }
+        // Other keys name a lookup key, e.g. `sort_key` or a bare `key` in Kubernetes tolerations
+        if (last === 'key' && !credentialKeyWords.includes(words[words.length - 2]) && !looksRandom(value)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function looksRandom(value: string): boolean {
+    if (value.length < minEntropyLength || /\s/.test(value) || value.includes('://') || /^(~|\.{1,2})?\//.test(value)) {
+        return false;
+    }
+    // Hex digests and UUIDs are lower-case only
+    if (!/[a-z]/.test(value) || !/[A-Z]/.test(value) || !/[0-9]/.test(value)) {
+        return false;
+    }
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy >= minEntropy;
+}
+
+/**
+ * Replaces the value with a reference to a new entry in `config.globals` of
+ * workspace.poly that holds the value.
+ */
+function createMoveFix(ast: Document.Parsed, content: string, node: Scalar, yamlPath: YamlPath, range: OffsetRange, globalsFile: GlobalsFile): IssueFix | undefined {
+    const globals = getNodeAtPath(globalsFile.ast.contents, ['config', 'globals']);
+    const existing = isMap(globals) ? (globals as YAMLMap).items.map(pair => isScalar(pair.key) ? String(pair.key.value) : '') : [];
+    const baseName = globalName(ast, yamlPath);
+    let name = baseName;
+    for (let i = 2; existing.includes(name); i++) {
+        name = `${baseName}_${i}`;
+    }
+
+    const isQuotedOrPlain = node.type === 'PLAIN' || node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE';
+    const valueText = isQuotedOrPlain ? content.substring(range.start, range.end) : JSON.stringify(String(node.value));
+    const edit = insertGlobal(globalsFile, name, valueText);
+    if (!edit) {
+        return undefined;
+    }
+
+    return {
+        title: `Move value to config.globals.${name} in workspace.poly`,
+        range,
+        newText: `"{{ .Workspace.Config.Globals.${name} }}"`,
+        additionalEdits: [edit]
+    };
+}
+
+/**
+ * Derives the globals key from the block name and the config path, e.g.
+ * `postgres_chart_auth_password` for `chart.auth.password` of block `postgres`.
+ */
+function globalName(ast: Document.Parsed, yamlPath: YamlPath): string {
+    const configIndex = yamlPath.lastIndexOf('config');
+    const owner = configIndex === -1 ? undefined : getNodeAtPath(ast.contents, yamlPath.slice(0, configIndex));
+    const blockName = owner ? getScalarValue(owner, 'name') : undefined;
+    const keys = yamlPath.slice(configIndex + 1).filter((segment): segment is string => typeof segment === 'string');
+    return [blockName, ...keys]
+        .filter(part => part)
+        .join('_')
+        .replace(/[^A-Za-z0-9_]/g, '_')
+        .toLowerCase();
+}
+
+function insertGlobal(globalsFile: GlobalsFile, name: string, valueText: string): FileEdit | undefined {
+    const { ast, content, filePath } = globalsFile;
+    const root = ast.contents;
+    if (!isMap(root)) {
+        return undefined;
+    }
+
+    const configPair = findPair(root, 'config');
+    if (!configPair) {
+        const prefix = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+        return { filePath, range: { start: content.length, end: content.length }, newText: `${prefix}config:\n  globals:\n    ${name}: ${valueText}\n` };
+    }
+    const config = configPair.value as Node | null;
+    if (!isMap(config) || config.flow) {
+        return undefined;
+    }
+
+    const globalsPair = findPair(config, 'globals');
+    if (!globalsPair) {
+        const indent = ' '.repeat(column(content, nodeRange(config)!.start));
+        const at = lineEnd(content, lastItemEnd(config));
+        return { filePath, range: { start: at, end: at }, newText: `\n${indent}globals:\n${indent}  ${name}: ${valueText}` };
+    }
+
+    const globals = globalsPair.value as Node | null;
+    const keyIndent = ' '.repeat(column(content, nodeRange(globalsPair.key)!.start) + 2);
+    if (globals === null || (isScalar(globals) && globals.value === null)) {
+        const at = lineEnd(content, nodeRange(globalsPair.key)!.end);
+        return { filePath, range: { start: at, end: at }, newText: `\n${keyIndent}${name}: ${valueText}` };
+    }
+    if (!isMap(globals)) {
+        return undefined;
+    }
+    if (globals.flow) {
+        // `globals: {}` is turned into a block map, other flow maps are left alone
+        return globals.items.length === 0
+            ? { filePath, range: { start: nodeRange(globalsPair.key)!.end, end: nodeRange(globals)!.end }, newText: `:\n${keyIndent}${name}: ${valueText}` }
+            : undefined;
+    }
+    const indent = ' '.repeat(column(content, nodeRange(globals)!.start));
+    const at = lineEnd(content, lastItemEnd(globals));
+    return { filePath, range: { start: at, end: at }, newText: `\n${indent}${name}: ${valueText}` };
+}
+
+function lastItemEnd(map: YAMLMap): number {
+    const last = map.items[map.items.length - 1];
+    const range = nodeRange(last.value as Node | null) || nodeRange(last.key as Node | null);
+    return range ? range.end : nodeRange(map)!.end;
+}
+
+/** Offset of the line break ending the line that contains `offset` */
+function lineEnd(content: string, offset: number): number {
+    // Block scalars already end after their line break
+    if (offset > 0 && content[offset - 1] === '\n') {
+        return offset - 1;
+    }
+    const index = content.indexOf('\n', offset);
+    return index === -1 ? content.length : index;
+}
+
+function column(content: string, offset: number): number {
+    return offset - (content.lastIndexOf('\n', offset - 1) + 1);
+}
@@ -0,0 +1,119 @@
+import { Document } from 'yaml';
+import { SemanticTokens, SemanticTokensBuilder, SemanticTokensLegend } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { OffsetRange, findPair, getSeqItems, nodeRange, parsePolyDocument, visitStringScalars } from './yamlAst';
+import { findRescopedExpressions, findTemplateReferences, scanTemplateExpressions } from './templateExpressions';
+import { PolycrateTemplateValidator } from './templateValidator';
+import { findFromReferences } from './fromReferences';
+import { PolycrateLanguageServer } from './languageServer';
+
+const tokenTypes = ['macro', 'variable', 'property', 'operator', 'namespace', 'function'];
+const tokenModifiers = ['unresolved'];
+
+interface Token {
+    range: OffsetRange;
+    type: string;
+    unresolved?: boolean;
+}
+
+/**
+ * Highlights what the TextMate grammar sees as plain strings: the parts of
+ * `{{ }}` template expressions and references to blocks and actions in
+ * `from:` and workflow steps. Template paths that do not resolve carry the
+ * `unresolved` modifier.
+ */
+export class PolycrateSemanticTokensProvider {
+
+    public static readonly legend: SemanticTokensLegend = { tokenTypes, tokenModifiers };
+
+    private templateValidator = new PolycrateTemplateValidator();
+
+    constructor(private languageServer: PolycrateLanguageServer) {}
+
+    public provideSemanticTokens(document: TextDocument): SemanticTokens {
+        const builder = new SemanticTokensBuilder();
+
+        try {
+            const content = document.getText();
+            const ast = parsePolyDocument(content);
+            const tokens = [...this.getTemplateTokens(document, content, ast), ...this.getReferenceTokens(content, ast)];
+
+            // The builder expects tokens in document order
+            tokens.sort((a, b) => a.range.start - b.range.start);
+            for (const token of tokens) {
+                const start = document.positionAt(token.range.start);
+                const end = document.positionAt(token.range.end);
+                // Tokens cannot span lines
+                if (start.line !== end.line || end.character <= start.character) {
+                    continue;
+                }
+                builder.push(start.line, start.character, end.character - start.character, tokenTypes.indexOf(token.type), token.unresolved ? 1 : 0);
+            }
+        } catch (error) {
+            console.error('Error computing semantic tokens:', error);
+        }
+
+        return builder.build();
+    }
+
+    private getTemplateTokens(document: TextDocument, content: string, ast: Document.Parsed): Token[] {
+        const tokens: Token[] = [];
+        const context = this.languageServer.getTemplateContext(document);
+
+        visitStringScalars(ast, (_scalar, range) => {
+            const text = content.substring(range.start, range.end);
+            const expressions = scanTemplateExpressions(text, range.start).expressions;
+            const rescoped = findRescopedExpressions(expressions);
+            for (const expression of expressions) {
+                // Delimiters including their trim markers
+                tokens.push({ range: { start: expression.range.start, end: expression.innerStart }, type: 'macro' });
+                tokens.push({ range: { start: expression.innerStart + expression.inner.length, end: expression.range.end }, type: 'macro' });
+
+                const scope = context.scopeAt(expression.range.start);
+                for (const reference of findTemplateReferences(expression, rescoped.has(expression))) {
+                    const issue = this.templateValidator.checkReference(reference, scope, context);
+                    reference.segments.forEach((segment, i) => tokens.push({
+                        range: segment.range,
+                        type: i === 0 ? 'variable' : 'property',
+                        unresolved: !!issue && (!issue.range || issue.range.start <= segment.range.start)
+                    }));
+                }
+
+                // Pipes outside of string literals
+                const source = expression.inner.replace(/"(?:[^"\\]|\\.)*"|`[^`]*`/g, match => ' '.repeat(match.length));
+                for (let i = source.indexOf('|'); i !== -1; i = source.indexOf('|', i + 1)) {
+                    tokens.push({ range: { start: expression.innerStart + i, end: expression.innerStart + i + 1 }, type: 'operator' });
+                }
+            }
+        });
+
+        return tokens;
+    }
+
+    private getReferenceTokens(content: string, ast: Document.Parsed): Token[] {
+        const tokens: Token[] = [];
+        const addValue = (range: OffsetRange | undefined, type: string) => {
+            if (!range) {
+                return;
+            }
+            // Without the quotes of quoted scalars
+            const quoted = /^["']/.test(content.charAt(range.start));
+            tokens.push({ range: { start: range.start + (quoted ? 1 : 0), end: range.end - (quoted ? 1 : 0) }, type });
+        };
+
+        for (const reference of findFromReferences(ast)) {
+            addValue(reference.range, 'namespace');
+        }
+        for (const workflow of getSeqItems(ast.contents, ['workflows'])) {
+            for (const step of getSeqItems(workflow, ['steps'])) {
+                // An empty value has no range of its own
+                const block = findPair(step, 'block');
+                const action = findPair(step, 'action');
+                addValue(block && nodeRange(block.value), 'namespace');
+                addValue(action && nodeRange(action.value), 'function');
+            }
+        }
+
+        return tokens;
+    }
+}
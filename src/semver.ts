@@ -0,0 +1,67 @@
+/**
+ * Minimal semantic version handling for block versions and changelog entries.
+ */
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+    raw: string;
+}
+
+const semverPattern = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+export function parseSemver(version: string): SemVer | null {
+    const match = semverPattern.exec(version.trim());
+    if (!match) {
+        return null;
+    }
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : [],
+        raw: version
+    };
+}
+
+/**
+ * Compares two versions following semver precedence rules. Returns a
+ * negative number if `a` is older than `b`, positive if newer, 0 if equal.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+    if (a.major !== b.major) {
+        return a.major - b.major;
+    }
+    if (a.minor !== b.minor) {
+        return a.minor - b.minor;
+    }
+    if (a.patch !== b.patch) {
+        return a.patch - b.patch;
+    }
+
+    // A version without prerelease tags has higher precedence
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+        return b.prerelease.length - a.prerelease.length;
+    }
+    for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+        const left = a.prerelease[i];
+        const right = b.prerelease[i];
+        if (left === undefined || right === undefined) {
+            return left === undefined ? -1 : 1;
+        }
+        const leftNumeric = /^\d+$/.test(left);
+        const rightNumeric = /^\d+$/.test(right);
+        if (leftNumeric && rightNumeric) {
+            if (Number(left) !== Number(right)) {
+                return Number(left) - Number(right);
+            }
+        } else if (leftNumeric !== rightNumeric) {
+            return leftNumeric ? -1 : 1;
+        } else if (left !== right) {
+            return left < right ? -1 : 1;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import {
+    DidChangeConfigurationNotification,
+    DidChangeWatchedFilesNotification,
+    InitializeResult,
+    ProposedFeatures,
+    TextDocumentSyncKind,
+    TextDocuments,
+    createConnection
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { LanguageServerHost, PolycrateLanguageServer } from './languageServer';
+import { PolycrateValidationProvider } from './validationProvider';
+import { PolycrateCompletionProvider } from './completionProvider';
+import { PolycrateHoverProvider } from './hoverProvider';
+import { PolycrateCodeActionProvider } from './codeActionProvider';
+import { PolycrateDocumentLinkProvider } from './documentLinkProvider';
+import { PolycrateSemanticTokensProvider } from './semanticTokensProvider';
+import { PolycrateCliService } from './cliService';
+import { PolycrateSettings, defaultSettings, withDefaults } from './settings';
+import { validateWorkspaceRequest } from './protocol';
+
+/*
+ * Polycrate language server. VS Code starts it through the extension; other
+ * editors run `polycrate-language-server --stdio`.
+ */
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+
+let workspaceFolders: string[] = [];
+let hasConfigurationCapability = false;
+let hasWatchedFilesRegistration = false;
+let hasWorkspaceFolderCapability = false;
+// Settings without a document scope, used by the CLI service
+let globalSettings: PolycrateSettings = defaultSettings;
+// Settings per document, requested from the client once until they change
+const documentSettings = new Map<string, Promise<PolycrateSettings>>();
+
+const host: LanguageServerHost = {
+    getSettings(uri?: string): Promise<PolycrateSettings> {
+        if (!hasConfigurationCapability) {
+            return Promise.resolve(globalSettings);
+        }
+        const key = uri || '';
+        let settings = documentSettings.get(key);
+        if (!settings) {
+            settings = connection.workspace.getConfiguration({ scopeUri: uri, section: 'polycrate' }).then(withDefaults);
+            documentSettings.set(key, settings);
+        }
+        return settings;
+    },
+    getWorkspaceFolders: () => workspaceFolders,
+    getDocumentText(filePath: string): string | undefined {
+        const document = documents.all().find(candidate => URI.parse(candidate.uri).fsPath === filePath);
+        return document ? document.getText() : undefined;
+    },
+    log: message => connection.console.log(message)
+};
+
+const cli = new PolycrateCliService(() => globalSettings.cli, host.log);
+const languageServer = new PolycrateLanguageServer(host, cli, path.resolve(__dirname, '..', 'schemas'));
+const validationProvider = new PolycrateValidationProvider(connection, documents, languageServer, host);
+const completionProvider = new PolycrateCompletionProvider(languageServer);
+const hoverProvider = new PolycrateHoverProvider(languageServer);
+const codeActionProvider = new PolycrateCodeActionProvider(languageServer);
+const documentLinkProvider = new PolycrateDocumentLinkProvider(languageServer);
+const semanticTokensProvider = new PolycrateSemanticTokensProvider(languageServer);
+
+connection.onInitialize((params): InitializeResult => {
+    const capabilities = params.capabilities;
+    hasConfigurationCapability = !!(capabilities.workspace && capabilities.workspace.configuration);
+    hasWatchedFilesRegistration = !!(capabilities.workspace && capabilities.workspace.didChangeWatchedFiles && capabilities.workspace.didChangeWatchedFiles.dynamicRegistration);
+    hasWorkspaceFolderCapability = !!(capabilities.workspace && capabilities.workspace.workspaceFolders);
+
+    if (params.workspaceFolders) {
+        workspaceFolders = params.workspaceFolders.map(folder => URI.parse(folder.uri).fsPath);
+    } else if (params.rootUri) {
+        workspaceFolders = [URI.parse(params.rootUri).fsPath];
+    }
+    // Clients that cannot be asked for settings may pass them on startup
+    if (params.initializationOptions) {
+        globalSettings = withDefaults(params.initializationOptions);
+    }
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Incremental,
+            completionProvider: { triggerCharacters: [':', '"', "'", '-', ' ', '.'] },
+            hoverProvider: true,
+            codeActionProvider: { codeActionKinds: PolycrateCodeActionProvider.providedCodeActionKinds },
+            documentLinkProvider: { resolveProvider: false },
+            semanticTokensProvider: { legend: PolycrateSemanticTokensProvider.legend, full: true },
+            workspace: { workspaceFolders: { supported: true, changeNotifications: hasWorkspaceFolderCapability } }
+        }
+    };
+});
+
+connection.onInitialized(async () => {
+    if (hasConfigurationCapability) {
+        connection.client.register(DidChangeConfigurationNotification.type, { section: 'polycrate' });
+    }
+    if (hasWatchedFilesRegistration) {
+        connection.client.register(DidChangeWatchedFilesNotification.type, { watchers: [{ globPattern: '**/{*.poly,.workspace}' }] });
+    }
+    if (hasWorkspaceFolderCapability) {
+        connection.workspace.onDidChangeWorkspaceFolders(event => {
+            const removed = new Set(event.removed.map(folder => URI.parse(folder.uri).fsPath));
+            workspaceFolders = workspaceFolders
+                .filter(folder => !removed.has(folder))
+                .concat(event.added.map(folder => URI.parse(folder.uri).fsPath));
+        });
+    }
+    await refreshSettings();
+});
+
+connection.onDidChangeConfiguration(async change => {
+    if (!hasConfigurationCapability && change.settings) {
+        globalSettings = withDefaults(change.settings.polycrate);
+    }
+    await refreshSettings();
+});
+
+async function refreshSettings(): Promise<void> {
+    documentSettings.clear();
+    globalSettings = await host.getSettings();
+    await validationProvider.onConfigurationChange();
+}
+
+documents.onDidClose(event => {
+    documentSettings.delete(event.document.uri);
+});
+
+connection.onDidChangeWatchedFiles(params => validationProvider.onWatchedFilesChange(params.changes));
+
+connection.onCompletion(async (params, token) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !(await host.getSettings(document.uri)).completion.enable) {
+        return [];
+    }
+    return completionProvider.provideCompletionItems(document, params.position, token);
+});
+
+connection.onHover(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? hoverProvider.provideHover(document, params.position) : null;
+});
+
+connection.onCodeAction((params, token) => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? codeActionProvider.provideCodeActions(document, params, token) : [];
+});
+
+connection.onDocumentLinks(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? documentLinkProvider.provideDocumentLinks(document) : [];
+});
+
+connection.languages.semanticTokens.on(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? semanticTokensProvider.provideSemanticTokens(document) : { data: [] };
+});
+
+connection.onRequest(validateWorkspaceRequest, (_params, token) => validationProvider.validateWorkspace(token));
+
+connection.onShutdown(() => validationProvider.dispose());
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,49 @@
+import { CliSettings } from './cliService';
+import { RuleSettings } from './validationRules';
+
+export type ValidationScope = 'openFiles' | 'workspace';
+
+/**
+ * The `polycrate.*` settings contributed in package.json. The language
+ * server receives them through the LSP configuration request, so editors
+ * other than VS Code configure the same section.
+ */
+export interface PolycrateSettings {
+    validation: {
+        enable: boolean;
+        scope: ValidationScope;
+        /** Additional schema paths per file type, relative to the workspace folder */
+        schemas: { [fileType: string]: string[] };
+        rules: RuleSettings;
+        /** Additional kind rule packs, relative to the workspace folder */
+        rulePacks: string[];
+    };
+    completion: {
+        enable: boolean;
+    };
+    hub: {
+        endpoint: string;
+    };
+    cli: CliSettings;
+}
+
+export const defaultSettings: PolycrateSettings = {
+    validation: { enable: true, scope: 'openFiles', schemas: {}, rules: {}, rulePacks: [] },
+    completion: { enable: true },
+    hub: { endpoint: 'https://hub.polycrate.com' },
+    cli: { path: 'polycrate', timeout: 30000, maxConcurrent: 2, outputFormat: 'yaml' }
+};
+
+/**
+ * Fills in defaults for settings a client did not send. VS Code always sends
+ * the full section, other clients may send only what the user configured.
+ */
+export function withDefaults(settings: any): PolycrateSettings {
+    const section = settings && typeof settings === 'object' ? settings : {};
+    return {
+        validation: { ...defaultSettings.validation, ...section.validation },
+        completion: { ...defaultSettings.completion, ...section.completion },
+        hub: { ...defaultSettings.hub, ...section.hub },
+        cli: { ...defaultSettings.cli, ...section.cli }
+    };
+}
@@ -0,0 +1,240 @@
+import { OffsetRange } from './yamlAst';
+
+/**
+ * Parsing helpers for Go template expressions (`{{ .Block.Config.Foo }}`)
+ * embedded in .poly values. Offsets are relative to the text passed in plus
+ * the given base offset, so callers can map them back into the document.
+ */
+
+export interface TemplateExpression {
+    /** Range of the whole expression including the delimiters */
+    range: OffsetRange;
+    /** Text between the delimiters, trim markers (`{{-`, `-}}`) removed */
+    inner: string;
+    innerStart: number;
+}
+
+export interface TemplateSegment {
+    name: string;
+    range: OffsetRange;
+}
+
+export interface TemplateReference {
+    segments: TemplateSegment[];
+    range: OffsetRange;
+}
+
+export interface TemplateScanResult {
+    expressions: TemplateExpression[];
+    unclosed: OffsetRange[];
+    unopened: OffsetRange[];
+}
+
+export const templateRoots: { [root: string]: string[] } = {
+    Block: ['Name', 'DisplayName', 'Description', 'Kind', 'Type', 'Flavor', 'Version', 'Labels', 'Alias', 'Config', 'Actions', 'From', 'Template', 'Workdir', 'Inventory', 'Kubeconfig', 'Artifacts'],
+    Workspace: ['Name', 'Description', 'Organization', 'Labels', 'Alias', 'Config', 'Blocks', 'Workflows', 'Inventory', 'Kubeconfig', 'Registry', 'Path', 'Version'],
+    Action: ['Name', 'Description', 'Labels', 'Alias', 'Interactive', 'Prompt', 'Script', 'Playbook', 'Config'],
+    Prompt: ['Input', 'Message']
+};
+
+// Fields of `.Workspace.Config`; the CLI fills them with defaults when they are omitted
+export const workspaceConfigFields = [
+    'Image', 'BlocksRoot', 'LogsRoot', 'BlocksConfig', 'WorkspaceConfig', 'WorkflowsRoot',
+    'ArtifactsRoot', 'ContainerRoot', 'SshPrivateKey', 'SshPublicKey', 'RemoteRoot', 'Dockerfile', 'Globals'
+];
+
+/**
+ * Finds all `{{ ... }}` expressions in `text` and reports delimiters that have
+ * no counterpart.
+ */
+export function scanTemplateExpressions(text: string, baseOffset = 0): TemplateScanResult {
+    const result: TemplateScanResult = { expressions: [], unclosed: [], unopened: [] };
+    let index = 0;
+
+    while (index < text.length) {
+        const open = text.indexOf('{{', index);
+        const close = text.indexOf('}}', index);
+
+        if (close !== -1 && (open === -1 || close < open)) {
+            result.unopened.push({ start: baseOffset + close, end: baseOffset + close + 2 });
+            index = close + 2;
+            continue;
+        }
+        if (open === -1) {
+            break;
+        }
+
+        const nextClose = text.indexOf('}}', open + 2);
+        const nextOpen = text.indexOf('{{', open + 2);
+        if (nextClose === -1 || (nextOpen !== -1 && nextOpen < nextClose)) {
+            result.unclosed.push({ start: baseOffset + open, end: baseOffset + open + 2 });
+            index = open + 2;
+            continue;
+        }
+
+        let innerStart = open + 2;
+        let innerEnd = nextClose;
+        if (text[innerStart] === '-') {
+            innerStart++;
+        }
+        if (innerEnd > innerStart && text[innerEnd - 1] === '-') {
+            innerEnd--;
+        }
+        result.expressions.push({
+            range: { start: baseOffset + open, end: baseOffset + nextClose + 2 },
+            inner: text.substring(innerStart, innerEnd),
+            innerStart: baseOffset + innerStart
+        });
+        index = nextClose + 2;
+    }
+
+    return result;
+}
+
+/**
+ * Expressions in the body of a `range` or `with` action, where `.` is the
+ * current element instead of the root. `expressions` must be in text order,
+ * e.g. those of one scalar; `else` branches keep the outer `.`.
+ */
+export function findRescopedExpressions(expressions: TemplateExpression[]): Set<TemplateExpression> {
+    const rescoped = new Set<TemplateExpression>();
+    // One entry per open action, true if it rebinds `.`
+    const actions: boolean[] = [];
+
+    for (const expression of expressions) {
+        const keyword = (/^\s*(\w+)/.exec(expression.inner) || [])[1];
+        // An action's own pipeline is evaluated with the outer `.`
+        let isRescoped = actions.includes(true);
+        switch (keyword) {
+            case 'range':
+            case 'with':
+            case 'define':
+            case 'block':
+                actions.push(true);
+                break;
+            case 'if':
+                actions.push(false);
+                break;
+            case 'else':
+                if (actions.length > 0) {
+                    actions.pop();
+                    isRescoped = actions.includes(true);
+                    actions.push(/^\s*else\s+with\b/.test(expression.inner));
+                }
+                break;
+            case 'end':
+                actions.pop();
+                break;
+        }
+        if (isRescoped) {
+            rescoped.add(expression);
+        }
+    }
+
+    return rescoped;
+}
+
+/**
+ * Extracts field chains such as `.Block.Config.Namespace` or `$.Workspace.Name`
+ * from an expression. Variables (`$x.Foo`) and string literals are skipped.
+ * In a `range` or `with` body (`rescoped`) only chains starting at `$` refer
+ * to the root, so the others are skipped as well.
+ */
+export function findTemplateReferences(expression: TemplateExpression, rescoped = false): TemplateReference[] {
+    const references: TemplateReference[] = [];
+    // Blank out string literals so dots inside them are not matched
+    const source = expression.inner.replace(/"(?:[^"\\]|\\.)*"|`[^`]*`/g, match => ' '.repeat(match.length));
+    const pattern = /(^|[\s(|$])((?:\.[A-Za-z_][A-Za-z0-9_]*)+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source)) !== null) {
+        if (rescoped && match[1] !== '$') {
+            continue;
+        }
+        const chainStart = expression.innerStart + match.index + match[1].length;
+        const segments: TemplateSegment[] = [];
+        let offset = chainStart;
+        for (const name of match[2].split('.').slice(1)) {
+            offset += 1;
+            segments.push({ name, range: { start: offset, end: offset + name.length } });
+            offset += name.length;
+        }
+        references.push({ segments, range: { start: chainStart, end: offset } });
+    }
+
+    return references;
+}
+
+/**
+ * Keys are matched case-insensitively and without separators, so that
+ * `.Block.Config.StorageClass` resolves to `config.storage_class`.
+ */
+export function normalizeTemplateKey(key: string): string {
+    return key.toLowerCase().replace(/[_-]/g, '');
+}
+
+/**
+ * The name a config key has in templates: `storage_class` becomes `StorageClass`.
+ * `normalizeTemplateKey` maps both spellings to the same key.
+ */
+export function toTemplateKey(key: string): string {
+    return key.split(/[_-]/).map(part => part.charAt(0).toUpperCase() + part.substring(1)).join('');
+}
+
+/**
+ * The chain of fields typed before the cursor in an open `{{` expression,
+ * e.g. `{{ .Block.Config.Da` gives the segments `Block`, `Config` and the
+ * partial name `Da`. Returns undefined if `linePrefix` does not end in such
+ * a chain.
+ */
+export function findTemplateChainAtCursor(linePrefix: string): { segments: string[]; partial: string } | undefined {
+    const open = linePrefix.lastIndexOf('{{');
+    if (open === -1 || linePrefix.indexOf('}}', open) !== -1) {
+        return undefined;
+    }
+    const match = linePrefix.substring(open + 2).match(/(?:^-?|[\s(|$])((?:\.[A-Za-z_][A-Za-z0-9_]*)*)\.([A-Za-z0-9_]*)$/);
+    if (!match) {
+        return undefined;
+    }
+    return { segments: match[1].split('.').slice(1), partial: match[2] };
+}
+
+/**
+ * Walks `segments` through a plain object like `resolveTemplatePath` and
+ * returns the value they lead to, or undefined.
+ */
+export function getTemplateValue(value: any, segments: string[]): any {
+    let current = value;
+    for (const segment of segments) {
+        if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+            return undefined;
+        }
+        const normalized = normalizeTemplateKey(segment);
+        const key = Object.keys(current).find(candidate => normalizeTemplateKey(candidate) === normalized);
+        if (key === undefined) {
+            return undefined;
+        }
+        current = current[key];
+    }
+    return current;
+}
+
+/**
+ * Walks `segments` through a plain config object. Returns the index of the
+ * first segment that does not resolve, or -1 if the whole path resolves.
+ */
+export function resolveTemplatePath(value: any, segments: string[]): number {
+    let current = value;
+    for (let i = 0; i < segments.length; i++) {
+        if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+            return i;
+        }
+        const normalized = normalizeTemplateKey(segments[i]);
+        const key = Object.keys(current).find(candidate => normalizeTemplateKey(candidate) === normalized);
+        if (key === undefined) {
+            return i;
+        }
+        current = current[key];
+    }
+    return -1;
+}
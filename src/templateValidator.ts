@@ -0,0 +1,139 @@
+import { Document } from 'yaml';
+import { OffsetRange, visitStringScalars } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import {
+    TemplateReference,
+    findRescopedExpressions,
+    findTemplateReferences,
+    normalizeTemplateKey,
+    resolveTemplatePath,
+    scanTemplateExpressions,
+    templateRoots,
+    workspaceConfigFields
+} from './templateExpressions';
+
+export interface TemplateScope {
+    /** Whether `.Block` refers to a block at this position */
+    hasBlock: boolean;
+    /** The block with its inherited fields; undefined if it cannot be fully determined */
+    block?: any;
+    /** Config tree for `.Block.Config`; undefined if it cannot be fully determined */
+    blockConfig?: any;
+}
+
+export interface TemplateContext {
+    /** Content of workspace.poly; undefined if the workspace is unknown */
+    workspace?: any;
+    /** `config.globals` of workspace.poly; undefined if the workspace is unknown */
+    globals?: any;
+    scopeAt(offset: number): TemplateScope;
+}
+
+/**
+ * Checks `{{ }}` expressions in .poly files for balanced delimiters and for
+ * references that do not resolve against the block config or workspace globals.
+ */
+export class PolycrateTemplateValidator {
+
+    public validate(ast: Document.Parsed, content: string, context: TemplateContext): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
+        visitStringScalars(ast, (_scalar, range) => {
+            const scan = scanTemplateExpressions(content.substring(range.start, range.end), range.start);
+
+            for (const unclosed of scan.unclosed) {
+                issues.push({ message: `Unclosed template expression: missing '}}'`, range: unclosed, severity: 'error', rule: 'template-delimiter' });
+            }
+            for (const unopened of scan.unopened) {
+                issues.push({ message: `Unexpected '}}' without matching '{{'`, range: unopened, severity: 'error', rule: 'template-delimiter' });
+            }
+
+            const rescoped = findRescopedExpressions(scan.expressions);
+            for (const expression of scan.expressions) {
+                const scope = context.scopeAt(expression.range.start);
+                for (const reference of findTemplateReferences(expression, rescoped.has(expression))) {
+                    const issue = this.checkReference(reference, scope, context);
+                    if (issue) {
+                        issues.push(issue);
+                    }
+                }
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * The issue of a single reference, ranging from its first segment that
+     * does not resolve to its end, or undefined if it resolves.
+     */
+    public checkReference(reference: TemplateReference, scope: TemplateScope, context: TemplateContext): ValidationIssue | undefined {
+        const names = reference.segments.map(segment => segment.name);
+        const text = '.' + names.join('.');
+        const root = names[0];
+
+        if (!templateRoots[root]) {
+            return {
+                message: `Unknown template root '.${root}'. Known roots: ${Object.keys(templateRoots).map(name => '.' + name).join(', ')}`,
+                range: reference.segments[0].range,
+                severity: 'warning',
+                rule: 'template-unknown-root'
+            };
+        }
+        if (names.length < 2) {
+            return undefined;
+        }
+
+        const field = names[1];
+        if (!templateRoots[root].includes(field)) {
+            return {
+                message: `'${field}' is not a known field of .${root} in '${text}'`,
+                range: this.rangeFrom(reference, 1),
+                severity: 'warning',
+                rule: 'template-unknown-field'
+            };
+        }
+
+        if (root === 'Block' && field === 'Config' && scope.hasBlock && scope.blockConfig !== undefined) {
+            const failed = resolveTemplatePath(scope.blockConfig, names.slice(2));
+            if (failed !== -1) {
+                return {
+                    message: `Template path '${text}' does not resolve: '${names[failed + 2]}' is not defined in the block config`,
+                    range: this.rangeFrom(reference, failed + 2),
+                    severity: 'warning',
+                    rule: 'template-unresolved'
+                };
+            }
+        }
+
+        if (root === 'Workspace' && field === 'Config' && names.length > 2) {
+            const configField = normalizeTemplateKey(names[2]);
+            if (!workspaceConfigFields.map(normalizeTemplateKey).includes(configField)) {
+                return {
+                    message: `Template path '${text}' does not resolve: '${names[2]}' is not a workspace config field`,
+                    range: this.rangeFrom(reference, 2),
+                    severity: 'warning',
+                    rule: 'template-unresolved'
+                };
+            }
+            if (configField === 'globals' && context.globals !== undefined) {
+                const failed = resolveTemplatePath(context.globals, names.slice(3));
+                if (failed !== -1) {
+                    return {
+                        message: `Template path '${text}' does not resolve: '${names[failed + 3]}' is not defined in config.globals of workspace.poly`,
+                        range: this.rangeFrom(reference, failed + 3),
+                        severity: 'warning',
+                        rule: 'template-unresolved'
+                    };
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private rangeFrom(reference: TemplateReference, segmentIndex: number): OffsetRange {
+        const segment = reference.segments[Math.min(segmentIndex, reference.segments.length - 1)];
+        return { start: segment.range.start, end: reference.range.end };
+    }
+}
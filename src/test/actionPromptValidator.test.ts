@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { PolycrateActionPromptValidator } from '../actionPromptValidator';
+import { parsePolyDocument } from '../yamlAst';
+
+function findIssues(action: string): string[] {
+    const content = `name: app\nactions:\n  - name: run\n${action}`;
+    return new PolycrateActionPromptValidator().validate(parsePolyDocument(content), content)
+        .map(issue => `${issue.rule} ${content.substring(issue.range!.start, issue.range!.end)}`);
+}
+
+suite('action prompts', () => {
+    test('an interactive action that uses its prompt input is consistent', () => {
+        assert.deepStrictEqual(findIssues('    interactive: true\n    prompt:\n      message: Version?\n    script:\n      - echo {{ .Prompt.Input }}\n'), []);
+    });
+
+    test('prompt input in an action that is not interactive is reported', () => {
+        assert.deepStrictEqual(findIssues('    script:\n      - echo {{ .Prompt.Input }}\n'), ['prompt-input-not-interactive .Prompt.Input']);
+    });
+
+    test('interactive actions need a prompt message', () => {
+        assert.deepStrictEqual(findIssues('    interactive: true\n    script:\n      - echo {{ .Prompt.Input }}\n'), ['prompt-missing-message interactive']);
+    });
+
+    test('a prompt that is never used is reported', () => {
+        assert.deepStrictEqual(findIssues('    interactive: true\n    prompt:\n      message: Sure?\n    script:\n      - echo hi\n'), ['prompt-unused prompt']);
+    });
+
+    test('destructive commands need a confirmation prompt', () => {
+        assert.deepStrictEqual(findIssues('    script:\n      - helm uninstall app\n      - kubectl delete pods --all -n app\n      - kubectl delete deployment app\n'), [
+            'destructive-without-prompt helm uninstall',
+            'destructive-without-prompt kubectl delete pods --all'
+        ]);
+        assert.deepStrictEqual(findIssues('    playbook: x.yml\n    script: |\n      terraform destroy -auto-approve\n      psql -c "DROP DATABASE app"\n'), [
+            'destructive-without-prompt terraform destroy',
+            'destructive-without-prompt DROP DATABASE'
+        ]);
+    });
+
+    test('a confirmed destructive command uses its prompt', () => {
+        assert.deepStrictEqual(findIssues('    interactive: true\n    prompt:\n      message: Really uninstall?\n    script:\n      - helm uninstall app\n'), []);
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { PolycrateChangelogValidator } from '../changelogValidator';
+import { parsePolyDocument } from '../yamlAst';
+
+function findIssues(content: string, blockVersion?: string): string[] {
+    return new PolycrateChangelogValidator().validate(parsePolyDocument(content), content, blockVersion)
+        .map(issue => `${issue.rule} ${content.substring(issue.range!.start, issue.range!.end)}`);
+}
+
+suite('changelog rules', () => {
+    test('a well-formed changelog has no issues', () => {
+        const content = '- version: 1.1.0\n  date: 2024-02-01\n  description: Add backups\n- version: 1.0.0\n  date: 2024-01-15T10:00:00Z\n  description: First release\n';
+        assert.deepStrictEqual(findIssues(content, '1.1.0'), []);
+    });
+
+    test('reads entries from a changes list', () => {
+        const content = 'changes:\n  - version: 1.0.0\n    description: First release\n  - version: 1.0.0\n    description: Again\n';
+        assert.deepStrictEqual(findIssues(content), ['changelog-duplicate-version 1.0.0']);
+    });
+
+    test('versions must be semantic and ordered newest first', () => {
+        const content = '- version: 1.0.0\n  description: a\n- version: 1.2.0\n  description: b\n- version: one\n  description: c\n';
+        assert.deepStrictEqual(findIssues(content), ['changelog-order 1.2.0', 'changelog-version-format one']);
+    });
+
+    test('duplicates match regardless of a v prefix', () => {
+        const content = '- version: v1.0.0\n  description: a\n- version: 1.0.0\n  description: b\n';
+        assert.deepStrictEqual(findIssues(content), ['changelog-duplicate-version 1.0.0']);
+    });
+
+    test('dates must be ISO 8601 calendar dates', () => {
+        const content = '- version: 1.0.0\n  date: 15.01.2024\n  description: a\n- version: 0.9.0\n  date: 2024-13-45\n  description: b\n';
+        assert.deepStrictEqual(findIssues(content), ['changelog-date-format 15.01.2024', 'changelog-date-format 2024-13-45']);
+    });
+
+    test('entries without a description are reported at their version', () => {
+        assert.deepStrictEqual(findIssues('- version: 1.0.0\n'), ['changelog-missing-description 1.0.0']);
+    });
+
+    test('the newest version must match block.poly', () => {
+        const content = '- version: 1.0.0\n  description: a\n- version: 1.1.0\n  description: b\n';
+        assert.deepStrictEqual(findIssues(content, '1.1.0').filter(issue => issue.startsWith('changelog-version-mismatch')), []);
+        assert.deepStrictEqual(findIssues(content, '1.2.0').filter(issue => issue.startsWith('changelog-version-mismatch')), ['changelog-version-mismatch 1.1.0']);
+    });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { locateCliError, parseCliErrors } from '../cliErrorParser';
+import { parsePolyDocument } from '../yamlAst';
+
+const root = path.resolve('/workspace');
+
+suite('CLI error parsing', () => {
+    test('keeps error-level log lines and expands their escaped messages', () => {
+        const output = [
+            'level=info msg="Loading workspace"',
+            'level=error msg="block.poly:3:5: unknown field \\"kinds\\"\\nsecond line"',
+            'level=warning msg="Deprecated field"'
+        ].join('\n');
+        const errors = parseCliErrors(output, root);
+        assert.deepStrictEqual(errors.map(error => error.message), ['block.poly:3:5: unknown field "kinds"', 'second line']);
+        assert.strictEqual(errors[0].filePath, path.join(root, 'block.poly'));
+        assert.strictEqual(errors[0].line, 3);
+        assert.strictEqual(errors[0].column, 5);
+        assert.strictEqual(errors[0].key, 'kinds');
+    });
+
+    test('reads file paths with line numbers and yaml line references', () => {
+        const [fileError, lineError] = parseCliErrors('blocks/app/block.poly:12: mapping values are not allowed\nyaml: line 7, column 3: did not find expected key', root);
+        assert.strictEqual(fileError.filePath, path.join(root, 'blocks', 'app', 'block.poly'));
+        assert.strictEqual(fileError.line, 12);
+        assert.strictEqual(lineError.filePath, undefined);
+        assert.strictEqual(lineError.line, 7);
+        assert.strictEqual(lineError.column, 3);
+    });
+
+    test('attaches indented details to their header', () => {
+        const errors = parseCliErrors('yaml: unmarshal errors in workspace.poly:\n  line 4: field organisation not found in type config.Workspace\n', root);
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(errors[0].message, 'yaml: unmarshal errors in workspace.poly: line 4: field organisation not found in type config.Workspace');
+        assert.strictEqual(errors[0].filePath, path.join(root, 'workspace.poly'));
+        assert.strictEqual(errors[0].line, 4);
+        assert.strictEqual(errors[0].key, 'organisation');
+    });
+
+    test('turns validator Key paths into field paths', () => {
+        const [error] = parseCliErrors("Key: 'Workspace.Blocks[1].DisplayName' Error:Field validation for 'DisplayName' failed on the 'required' tag", root);
+        assert.deepStrictEqual(error.fieldPath, ['Blocks', 1, 'DisplayName']);
+    });
+
+    test('locates errors by line, field path and key', () => {
+        const content = 'name: demo\nblocks:\n  - name: a\n  - name: b\n    display_name: B\nkinds: x\n';
+        const ast = parsePolyDocument(content);
+        const text = (range: { start: number; end: number } | undefined) => range && content.substring(range.start, range.end);
+
+        assert.strictEqual(text(locateCliError({ message: '', line: 3 }, ast, content)), '- name: a');
+        assert.strictEqual(text(locateCliError({ message: '', fieldPath: ['Blocks', 1, 'DisplayName'] }, ast, content)), 'B');
+        // A missing field is reported at its parent
+        assert.strictEqual(text(locateCliError({ message: '', fieldPath: ['Blocks', 0, 'Kind'] }, ast, content)), 'name: a\n');
+        assert.strictEqual(text(locateCliError({ message: '', key: 'kinds' }, ast, content)), 'kinds');
+        assert.strictEqual(locateCliError({ message: 'no location' }, ast, content), undefined);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliOutputFormat, PolycrateCliService } from '../cliService';
+
+suite('PolycrateCliService', () => {
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-cli-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    // A stand-in CLI that logs its arguments and runs `script`
+    function createCli(script: string, outputFormat: CliOutputFormat = 'yaml'): PolycrateCliService {
+        const cliPath = path.join(tmpDir, 'polycrate');
+        fs.writeFileSync(cliPath, `#!/bin/sh\necho "$@" >> "${tmpDir}/calls"\n${script}\n`, { mode: 0o755 });
+        return new PolycrateCliService(() => ({ path: cliPath, timeout: 5000, maxConcurrent: 1, outputFormat }));
+    }
+
+    function readCalls(): string[] {
+        return fs.readFileSync(path.join(tmpDir, 'calls'), 'utf8').trim().split('\n');
+    }
+
+    test('checks availability again after a failed check', async () => {
+        const cli = createCli(`[ -f "${tmpDir}/ready" ] || { touch "${tmpDir}/ready"; exit 1; }\necho 1.0.0`);
+        assert.strictEqual(await cli.isAvailable(), false);
+        assert.strictEqual(await cli.isAvailable(), true);
+        assert.strictEqual(await cli.isAvailable(), true);
+        assert.deepStrictEqual(readCalls(), ['version', 'version']);
+    });
+
+    test('searches blocks with JSON output', async () => {
+        const cli = createCli('echo \'[{"name": "acme/postgres", "version": "1.2.0"}]\'', 'json');
+        assert.deepStrictEqual(await cli.searchBlocks('postgres'), [{ name: 'acme/postgres', version: '1.2.0' }]);
+        assert.deepStrictEqual(readCalls(), ['blocks search postgres --output json']);
+    });
+
+    test('falls back to the text output of CLI versions without --output', async () => {
+        const cli = createCli('case "$*" in *--output*) echo "unknown flag: --output" >&2; exit 1;; esac\necho "Name: acme/postgres  Kind: db"', 'json');
+        assert.deepStrictEqual(await cli.searchBlocks('postgres'), [{ name: 'acme/postgres', description: 'Name: acme/postgres  Kind: db' }]);
+        assert.deepStrictEqual(readCalls(), ['blocks search postgres --output json', 'blocks search postgres']);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { CancellationToken, CodeAction, Diagnostic, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { PolycrateCodeActionProvider } from '../codeActionProvider';
+import { PolycrateLanguageServer } from '../languageServer';
+
+const token: CancellationToken = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => undefined }) };
+
+// Offers 1.2.0 for every reference
+const languageServer = {
+    getQuickFixes: async () => [],
+    getVersionCandidates: async () => [{ version: '1.2.0', source: 'registry' }]
+} as unknown as PolycrateLanguageServer;
+
+async function getPinEdits(content: string): Promise<{ actions: CodeAction[]; apply: (action: CodeAction) => string }> {
+    const document = TextDocument.create('file:///workspace/workspace.poly', 'polycrate', 1, content);
+    const diagnostics: Diagnostic[] = [];
+    for (const match of content.matchAll(/from: (\S+)/g)) {
+        const start = match.index! + 'from: '.length;
+        diagnostics.push({
+            range: Range.create(document.positionAt(start), document.positionAt(start + match[1].length)),
+            message: 'Unpinned',
+            code: 'from-latest-tag'
+        });
+    }
+    const provider = new PolycrateCodeActionProvider(languageServer);
+    const actions = await provider.provideCodeActions(document, {
+        textDocument: { uri: document.uri },
+        range: Range.create(0, 0, document.lineCount, 0),
+        context: { diagnostics }
+    }, token);
+    const apply = (action: CodeAction) => TextDocument.applyEdits(document, action.edit!.changes![document.uri] as TextEdit[]);
+    return { actions, apply };
+}
+
+suite('pin actions', () => {
+    test('keep double and single quotes of the reference', async () => {
+        const { actions, apply } = await getPinEdits('blocks:\n  - name: a\n    from: "registry/x:latest"\n  - name: b\n    from: \'registry/y:latest\'\n');
+        assert.strictEqual(apply(actions[0]), 'blocks:\n  - name: a\n    from: "registry/x:1.2.0"\n  - name: b\n    from: \'registry/y:latest\'\n');
+        const pinAll = actions.find(action => action.title.startsWith('Pin all'));
+        assert.ok(pinAll);
+        assert.strictEqual(apply(pinAll), 'blocks:\n  - name: a\n    from: "registry/x:1.2.0"\n  - name: b\n    from: \'registry/y:1.2.0\'\n');
+    });
+
+    test('replace plain references as they are', async () => {
+        const { actions, apply } = await getPinEdits('name: app\nfrom: registry/x\n');
+        assert.strictEqual(actions[0].title, "Pin to 'registry/x:1.2.0' (registry)");
+        assert.strictEqual(apply(actions[0]), 'name: app\nfrom: registry/x:1.2.0\n');
+    });
+});
@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompletionItem, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { PolycrateCliService } from '../cliService';
+import { PolycrateCompletionProvider } from '../completionProvider';
+import { LanguageServerHost, PolycrateLanguageServer } from '../languageServer';
+import { defaultSettings } from '../settings';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+function createProvider(workspaceRoot: string): PolycrateCompletionProvider {
+    const cli = { isAvailable: async () => false } as unknown as PolycrateCliService;
+    const host: LanguageServerHost = { getSettings: async () => defaultSettings, getWorkspaceFolders: () => [workspaceRoot], getDocumentText: () => undefined, log: () => undefined };
+    return new PolycrateCompletionProvider(new PolycrateLanguageServer(host, cli, path.join(repoRoot, 'schemas')));
+}
+
+/** Completions with the cursor at the end of `content`, which is saved to `filePath` first */
+async function completeAtEnd(provider: PolycrateCompletionProvider, filePath: string, content: string): Promise<CompletionItem[]> {
+    fs.writeFileSync(filePath, content);
+    const document = TextDocument.create(URI.file(filePath).toString(), 'polycrate', 1, content);
+    const result = await provider.provideCompletionItems(document, document.positionAt(content.length));
+    return Array.isArray(result) ? result : result.items;
+}
+
+suite('template completions', () => {
+    let tmpDir: string;
+    let provider: PolycrateCompletionProvider;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-completions-'));
+        provider = createProvider(tmpDir);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function complete(expression: string): Promise<string[]> {
+        const content = `name: demo\norganization: acme\nconfig:\n  globals:\n    storage_class: fast\nworkflows:\n  - name: all\n    steps:\n      - name: echo\n        script:\n          - echo {{ ${expression}`;
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'workspace.poly'), content);
+        return items.map(item => item.label);
+    }
+
+    test('offer globals in the casing of templates', async () => {
+        assert.deepStrictEqual(await complete('.Workspace.Config.Globals.'), ['StorageClass']);
+    });
+
+    test('offer a declared workspace config field once', async () => {
+        const labels = await complete('.Workspace.Config.');
+        assert.ok(labels.includes('Globals'));
+        assert.ok(!labels.includes('globals'));
+    });
+});
+
+suite('field completions', () => {
+    let tmpDir: string;
+    let provider: PolycrateCompletionProvider;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-completions-'));
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'app', 'block.poly'), 'name: app\nkind: generic\nconfig:\n  replicas: 1\n  database:\n    host: localhost\n');
+        provider = createProvider(tmpDir);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function complete(fileName: string, content: string): Promise<string[]> {
+        const items = await completeAtEnd(provider, path.join(tmpDir, fileName), content);
+        return items.map(item => item.label);
+    }
+
+    test('offer the fields of the map at the cursor that are not set yet', async () => {
+        const labels = await complete('blocks/app/block.poly', 'name: app\nactions:\n  - name: run\n    script:\n      - echo hi\n    ');
+        assert.ok(labels.includes('interactive'));
+        assert.ok(!labels.includes('name'));
+        assert.ok(!labels.includes('script'));
+        assert.ok(!labels.includes('kind'));
+        assert.deepStrictEqual(await complete('blocks/app/block.poly', 'name: app\nactions:\n  - name: run\n    prompt:\n      '), ['message']);
+    });
+
+    test('offer block fields on workspace block entries', async () => {
+        const labels = await complete('workspace.poly', 'name: demo\norganization: acme\nblocks:\n  - name: app\n    ');
+        assert.ok(labels.includes('kind'));
+        assert.ok(labels.includes('from'));
+        assert.ok(!labels.includes('organization'));
+    });
+
+    test('offer step fields in workflows', async () => {
+        const labels = await complete('workspace.poly', 'name: demo\norganization: acme\nworkflows:\n  - name: all\n    steps:\n      - name: deploy\n        ');
+        assert.deepStrictEqual(labels, ['description', 'labels', 'block', 'action', 'workflow', 'script', 'prompt']);
+    });
+
+    test('offer kinds as the value of kind', async () => {
+        const labels = await complete('workspace.poly', 'name: demo\norganization: acme\nblocks:\n  - name: app\n    kind: ');
+        assert.ok(labels.includes('k8sapp'));
+        assert.deepStrictEqual(await complete('workspace.poly', 'name: demo\norganization: acme\nblocks:\n  - name: app\n    type: '), []);
+    });
+
+    test('offer the config keys the block declares at the nesting level of the cursor', async () => {
+        const entry = 'name: demo\norganization: acme\nblocks:\n  - name: app\n    config:\n';
+        assert.deepStrictEqual(await complete('workspace.poly', `${entry}      replicas: 2\n      `), ['database']);
+        assert.deepStrictEqual(await complete('workspace.poly', `${entry}      database:\n        `), ['host']);
+    });
+});
+
+suite('from completions', () => {
+    let tmpDir: string;
+    let provider: PolycrateCompletionProvider;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-completions-'));
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\n');
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'base-block'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'base-block', 'block.poly'), 'name: base\nkind: generic\nversion: 1.3.0\n');
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'base-block', 'CHANGELOG.poly'), '- version: "1.2.0"\n  description: "Adds TLS"\n- version: "1.10.0"\n  description: "Adds metrics"\n- version: "v1.2.0"\n  description: "Duplicate"\n');
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'app', 'block.poly'), 'name: app\nkind: generic\nfrom: registry.local/org/postgres:2.0.0\n');
+        provider = createProvider(tmpDir);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('offer local blocks by their declared name and blocks the workspace uses', async () => {
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\nblocks:\n  - name: web\n    from: ');
+        assert.deepStrictEqual(items.map(item => `${item.label} ${item.detail}`), [
+            'app Local block',
+            'base Local block',
+            'registry.local/org/postgres Used in this workspace'
+        ]);
+    });
+
+    test('a block config is not offered as its own base', async () => {
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'blocks', 'app', 'block.poly'), 'name: app\nkind: generic\nfrom: ');
+        assert.deepStrictEqual(items.map(item => item.label), ['base']);
+    });
+
+    test('offer the versions of a local block newest first after the tag separator', async () => {
+        const content = 'name: demo\norganization: acme\nblocks:\n  - name: web\n    from: base:1.';
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'workspace.poly'), content);
+        assert.deepStrictEqual(items.map(item => `${item.label} ${item.detail}`), [
+            '1.10.0 Local block: Adds metrics',
+            '1.3.0 Local block',
+            '1.2.0 Local block: Adds TLS'
+        ]);
+        assert.deepStrictEqual(items.map(item => item.sortText), ['0000', '0001', '0002']);
+        // Only the typed version is replaced
+        const edit = items[0].textEdit as TextEdit;
+        assert.deepStrictEqual(edit.range, { start: { line: 4, character: 15 }, end: { line: 4, character: 17 } });
+    });
+
+    test('offer no versions for unknown blocks', async () => {
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\nblocks:\n  - name: web\n    from: base-block:');
+        assert.deepStrictEqual(items, []);
+    });
+});
+
+suite('workflow step completions', () => {
+    let tmpDir: string;
+    let provider: PolycrateCompletionProvider;
+    const workspace = 'name: demo\norganization: acme\nblocks:\n  - name: web\n    description: Frontend\n    from: app\n    actions:\n      - name: smoke\nworkflows:\n  - name: all\n    steps:\n';
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-completions-'));
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'app', 'block.poly'), 'name: app\nkind: generic\ndescription: Application base\nactions:\n  - name: install\n    description: Installs the app\n  - name: uninstall\n    interactive: true\n');
+        provider = createProvider(tmpDir);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function complete(step: string): Promise<string[]> {
+        const items = await completeAtEnd(provider, path.join(tmpDir, 'workspace.poly'), `${workspace}      - name: step\n${step}`);
+        return items.map(item => `${item.label} ${item.detail}`);
+    }
+
+    test('offer workspace blocks and local blocks as the step block', async () => {
+        assert.deepStrictEqual(await complete('        block: '), ['web Workspace block', 'app Local block']);
+    });
+
+    test('offer the actions of the step block including inherited ones', async () => {
+        assert.deepStrictEqual(await complete('        block: web\n        action: '), [
+            'smoke Action',
+            'install Installs the app',
+            'uninstall Action (interactive)'
+        ]);
+    });
+
+    test('offer no actions without a step block', async () => {
+        assert.deepStrictEqual(await complete('        action: '), []);
+    });
+});
@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { getPinState, pinFrom } from '../fromReferences';
+
+suite('from references', () => {
+    test('read the tag from the last path segment only', () => {
+        assert.strictEqual(getPinState('registry.local:5000/org/block'), 'unversioned');
+        assert.strictEqual(getPinState('registry.local:5000/org/block:latest'), 'latest');
+        assert.strictEqual(getPinState('registry.local:5000/org/block:1.2.0'), 'pinned');
+        assert.strictEqual(getPinState('org/block@1.2.0'), 'pinned');
+    });
+
+    test('pin references behind a registry port', () => {
+        assert.strictEqual(pinFrom('registry.local:5000/org/block', '1.2.0'), 'registry.local:5000/org/block:1.2.0');
+        assert.strictEqual(pinFrom('registry.local:5000/org/block:latest', '1.2.0'), 'registry.local:5000/org/block:1.2.0');
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PolycrateLinter } from '../polycrateLinter';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('kind rules', () => {
+    const linter = new PolycrateLinter(path.join(repoRoot, 'schemas'));
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-kind-rules-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function lintWorkspace(content: string): Promise<string[]> {
+        const filePath = path.join(tmpDir, 'workspace.poly');
+        fs.writeFileSync(filePath, content);
+        return (await linter.lint({ filePath, content })).map(issue => issue.rule);
+    }
+
+    test('k8sapp blocks of the example workspace inherit its kubeconfig.path', async () => {
+        const filePath = path.join(repoRoot, 'examples', 'workspace.poly');
+        const issues = await linter.lint({ filePath, content: fs.readFileSync(filePath, 'utf8') });
+        assert.deepStrictEqual(issues.filter(issue => issue.rule === 'k8sapp-kubeconfig'), []);
+    });
+
+    test('k8sapp blocks without a kubeconfig in the block or workspace are reported', async () => {
+        const rules = await lintWorkspace('name: demo\norganization: acme\nblocks:\n  - name: app\n    kind: k8sapp\n    config:\n      namespace: app\n');
+        assert.ok(rules.includes('k8sapp-kubeconfig'));
+    });
+
+    test('a kubeconfig.from of the block satisfies the rule', async () => {
+        const rules = await lintWorkspace('name: demo\norganization: acme\nblocks:\n  - name: app\n    kind: k8sapp\n    kubeconfig:\n      from: cluster\n    config:\n      namespace: app\n');
+        assert.ok(!rules.includes('k8sapp-kubeconfig'));
+    });
+
+    suite('block.poly in a workspace', () => {
+        const blockContent = 'name: app\nkind: k8sapp\nkubeconfig:\n  from: cluster\n';
+        let blockPath: string;
+
+        setup(() => {
+            blockPath = path.join(tmpDir, 'blocks', 'app', 'block.poly');
+            fs.mkdirSync(path.dirname(blockPath), { recursive: true });
+            fs.writeFileSync(blockPath, blockContent);
+        });
+
+        async function lintBlock(workspace: string): Promise<string[]> {
+            fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), workspace);
+            return (await linter.lint({ filePath: blockPath, content: blockContent })).map(issue => issue.rule);
+        }
+
+        test('fields set by the workspace entry count', async () => {
+            const rules = await lintBlock('name: demo\norganization: acme\nblocks:\n  - name: app\n    config:\n      namespace: app\n');
+            assert.ok(!rules.includes('k8sapp-namespace'));
+        });
+
+        test('fields missing in the block and its workspace entry are reported', async () => {
+            const rules = await lintBlock('name: demo\norganization: acme\nblocks:\n  - name: app\n');
+            assert.ok(rules.includes('k8sapp-namespace'));
+        });
+
+        test('blocks no workspace entry uses are not checked', async () => {
+            const rules = await lintBlock('name: demo\norganization: acme\n');
+            assert.ok(!rules.includes('k8sapp-namespace'));
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { CliTimeoutError, PolycrateCliService } from '../cliService';
+import { LanguageServerHost, PolycrateLanguageServer } from '../languageServer';
+import { defaultSettings } from '../settings';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('PolycrateLanguageServer', () => {
+    let tmpDir: string;
+    let document: TextDocument;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-server-'));
+        const content = 'name: demo\norganization: acme\n';
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), content);
+        document = TextDocument.create(URI.file(path.join(tmpDir, 'workspace.poly')).toString(), 'polycrate', 1, content);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('runs the CLI again after a snapshot timed out', async () => {
+        let snapshotRuns = 0;
+        const cli = {
+            isAvailable: async () => true,
+            getWorkspaceSnapshot: async () => {
+                snapshotRuns++;
+                if (snapshotRuns === 1) {
+                    throw new CliTimeoutError(30000, ['workspace', 'snapshot']);
+                }
+                return { name: 'demo', organization: 'acme', blocks: [], workflows: [] };
+            }
+        } as unknown as PolycrateCliService;
+        const host: LanguageServerHost = { getSettings: async () => defaultSettings, getWorkspaceFolders: () => [tmpDir], getDocumentText: () => undefined, log: () => undefined };
+        const server = new PolycrateLanguageServer(host, cli, path.join(repoRoot, 'schemas'));
+
+        await server.validateFile(document);
+        await server.validateFile(document);
+        assert.strictEqual(snapshotRuns, 2);
+
+        // A snapshot that was taken is reused until a file changes
+        await server.validateFile(document);
+        assert.strictEqual(snapshotRuns, 2);
+    });
+
+    test('positions edits in workspace.poly against its unsaved content', async () => {
+        const blockPath = path.join(tmpDir, 'blocks', 'app', 'block.poly');
+        const blockContent = 'name: app\nconfig:\n  password: hunter2hunter2\n';
+        fs.mkdirSync(path.dirname(blockPath), { recursive: true });
+        fs.writeFileSync(blockPath, blockContent);
+        const workspacePath = path.join(tmpDir, 'workspace.poly');
+        const unsaved = 'name: demo\norganization: acme\nconfig:\n  globals:\n    region: eu\n';
+        const cli = { isAvailable: async () => false } as unknown as PolycrateCliService;
+        const host: LanguageServerHost = {
+            getSettings: async () => defaultSettings,
+            getWorkspaceFolders: () => [tmpDir],
+            getDocumentText: filePath => filePath === workspacePath ? unsaved : undefined,
+            log: () => undefined
+        };
+        const server = new PolycrateLanguageServer(host, cli, path.join(repoRoot, 'schemas'));
+        const blockDocument = TextDocument.create(URI.file(blockPath).toString(), 'polycrate', 1, blockContent);
+
+        const fixes = await server.getQuickFixes(blockDocument);
+        const move = fixes.find(fix => fix.title.startsWith('Move value'));
+        assert.ok(move);
+        const [edit] = move.edit.changes![URI.file(workspacePath).toString()];
+        assert.deepStrictEqual(edit.range, { start: { line: 4, character: 14 }, end: { line: 4, character: 14 } });
+        assert.strictEqual(edit.newText, '\n    app_password: hunter2hunter2');
+    });
+});
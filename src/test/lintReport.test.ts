@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { FileReport, countIssues, formatReport } from '../lintReport';
+
+const baseDir = path.resolve('/workspace');
+
+const reports: FileReport[] = [
+    {
+        filePath: path.join(baseDir, 'workspace.poly'),
+        content: 'name: demo\nblocks:\n  - name: app\n    kind: invalid\n',
+        issues: [
+            { message: 'Invalid kind value: invalid', range: { start: 43, end: 50 }, severity: 'error', rule: 'schema-enum' },
+            { message: 'Name contains <special> & "quoted" characters', range: { start: 6, end: 10 }, severity: 'warning', rule: 'name-format' },
+            { message: 'Consider a description', range: undefined, severity: 'info', rule: 'custom-rule', docsUrl: 'https://example.com/rules#custom-rule' }
+        ]
+    },
+    {
+        filePath: path.join(baseDir, 'blocks', 'app', 'block.poly'),
+        content: 'name: app\n',
+        issues: []
+    }
+];
+
+suite('formatReport', () => {
+    test('counts issues by severity', () => {
+        assert.strictEqual(countIssues(reports, 'error'), 1);
+        assert.strictEqual(countIssues(reports, 'warning'), 1);
+        assert.strictEqual(countIssues(reports, 'info'), 1);
+    });
+
+    test('text lists issues with 1-based positions and a summary', () => {
+        const lines = formatReport(reports, 'text', baseDir).trimEnd().split('\n');
+        assert.strictEqual(lines[0], 'workspace.poly:4:11: error Invalid kind value: invalid [schema-enum]');
+        assert.strictEqual(lines[lines.length - 1], '2 files checked, 1 errors, 1 warnings');
+    });
+
+    test('json reports relative files, positions and totals', () => {
+        const report = JSON.parse(formatReport(reports, 'json', baseDir));
+        assert.deepStrictEqual(report.files.map((file: any) => file.file), ['workspace.poly', 'blocks/app/block.poly']);
+        assert.deepStrictEqual(report.files[0].issues[0], {
+            line: 4,
+            column: 11,
+            endLine: 4,
+            endColumn: 18,
+            severity: 'error',
+            rule: 'schema-enum',
+            message: 'Invalid kind value: invalid'
+        });
+        assert.deepStrictEqual(report.files[1].issues, []);
+        assert.strictEqual(report.errors, 1);
+        assert.strictEqual(report.warnings, 1);
+    });
+
+    test('sarif declares each rule once and maps severities to levels', () => {
+        const sarif = JSON.parse(formatReport(reports, 'sarif', baseDir));
+        assert.strictEqual(sarif.version, '2.1.0');
+        const run = sarif.runs[0];
+        const ruleIds = run.tool.driver.rules.map((rule: any) => rule.id);
+        assert.deepStrictEqual(ruleIds, ['custom-rule', 'name-format', 'schema-enum']);
+        assert.strictEqual(run.tool.driver.rules[0].helpUri, 'https://example.com/rules#custom-rule');
+
+        assert.deepStrictEqual(run.results.map((result: any) => result.level), ['error', 'warning', 'note']);
+        const result = run.results[0];
+        assert.strictEqual(result.ruleIndex, ruleIds.indexOf('schema-enum'));
+        assert.deepStrictEqual(result.locations[0].physicalLocation, {
+            artifactLocation: { uri: 'workspace.poly' },
+            region: { startLine: 4, startColumn: 11, endLine: 4, endColumn: 18 }
+        });
+    });
+
+    test('junit has one failing test case per error or warning and escapes XML', () => {
+        const xml = formatReport(reports, 'junit', baseDir);
+        assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n'));
+        assert.ok(xml.includes('<testsuites name="polycrate-lint" tests="3" failures="2">'));
+        assert.ok(xml.includes('<testsuite name="workspace.poly" tests="2" failures="2">'));
+        assert.ok(xml.includes('<failure type="error" message="Invalid kind value: invalid">'));
+        assert.ok(xml.includes('message="Name contains &lt;special&gt; &amp; &quot;quoted&quot; characters"'));
+        // Info issues are not failures; files without failures get a passing test case
+        assert.ok(!xml.includes('Consider a description'));
+        assert.ok(xml.includes('<testcase classname="blocks/app/block.poly" name="blocks/app/block.poly"/>'));
+    });
+});
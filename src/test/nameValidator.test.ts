@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PolycrateLinter } from '../polycrateLinter';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('block names', () => {
+    const linter = new PolycrateLinter(path.join(repoRoot, 'schemas'));
+    let tmpDir: string;
+    let blockPath: string;
+    const blockContent = 'name: app\nkind: generic\n';
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-names-'));
+        blockPath = path.join(tmpDir, 'blocks', 'app-dir', 'block.poly');
+        fs.mkdirSync(path.dirname(blockPath), { recursive: true });
+        fs.writeFileSync(blockPath, blockContent);
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function lintWorkspace(content: string) {
+        const filePath = path.join(tmpDir, 'workspace.poly');
+        fs.writeFileSync(filePath, content);
+        return linter.lint({ filePath, content });
+    }
+
+    test('a block whose name differs from its directory is not found by the directory', async () => {
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\n');
+        const issues = (await linter.lint({ filePath: blockPath, content: blockContent })).filter(issue => issue.rule === 'block-directory-mismatch');
+        assert.deepStrictEqual(issues.map(issue => issue.message), [
+            "Block name 'app' does not match its directory 'app-dir'. Local blocks are found by their declared name, so references to 'app-dir' do not find this block"
+        ]);
+
+        const rules = (await lintWorkspace('name: demo\norganization: acme\nworkflows:\n  - name: all\n    steps:\n      - name: by-directory\n        block: app-dir\n')).map(issue => issue.rule);
+        assert.ok(rules.includes('workflow-unknown-block'));
+    });
+
+    test('a workspace entry named after the directory is reported', async () => {
+        const issues = (await lintWorkspace('name: demo\norganization: acme\nblocks:\n  - name: app-dir\n    kind: generic\n')).filter(issue => issue.rule === 'block-directory-mismatch');
+        assert.strictEqual(issues.length, 1);
+        assert.ok(issues[0].message.startsWith("Block 'app-dir' does not use the local directory 'app-dir'"));
+    });
+
+    test('the snapshot entry of a block is looked up by its declared name', async () => {
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\n');
+        const snapshot = { workspace: { name: 'demo', organization: 'acme', blocks: [{ name: 'app', kind: 'generic' }] } };
+        const issues = await linter.lint({ filePath: blockPath, content: blockContent }, { getSnapshot: async () => ({ snapshot }) });
+        assert.ok(!issues.some(issue => issue.rule === 'block-not-in-workspace'));
+    });
+});
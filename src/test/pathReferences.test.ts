@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findPathReferences } from '../pathReferences';
+import { parsePolyDocument } from '../yamlAst';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('findPathReferences', () => {
+    test('includes inventory.path and kubeconfig.path of the workspace', () => {
+        const content = fs.readFileSync(path.join(repoRoot, 'examples', 'workspace.poly'), 'utf8');
+        const references = findPathReferences(parsePolyDocument(content), true);
+        const inventory = references.find(reference => reference.field === 'inventory.path');
+        const kubeconfig = references.find(reference => reference.field === 'kubeconfig.path');
+        assert.deepStrictEqual(inventory && { value: inventory.value, type: inventory.type }, { value: 'inventory.yml', type: 'file' });
+        assert.deepStrictEqual(kubeconfig && { value: kubeconfig.value, type: kubeconfig.type }, { value: 'kubeconfig', type: 'file' });
+        assert.strictEqual(kubeconfig && content.substring(kubeconfig.range.start, kubeconfig.range.end), '"kubeconfig"');
+    });
+
+    test('labels the paths of workspace block entries with the block name', () => {
+        const ast = parsePolyDocument('blocks:\n  - name: app\n    inventory:\n      path: hosts.yml\n');
+        assert.deepStrictEqual(findPathReferences(ast, true).map(reference => reference.field), ["inventory.path of block 'app'"]);
+    });
+
+    test('skips values with template expressions', () => {
+        const ast = parsePolyDocument('kubeconfig:\n  path: "{{ .Workspace.Config.Globals.kubeconfig }}"\n');
+        assert.deepStrictEqual(findPathReferences(ast, false), []);
+    });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { main } from '../polycrateLint';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+const bin = path.join(repoRoot, 'bin', 'polycrate-lint.js');
+
+/**
+ * Runs the bin as CI would, without the Polycrate CLI.
+ */
+function runBin(...args: string[]): { status: number | null; stdout: string } {
+    const result = spawnSync(process.execPath, [bin, ...args], { cwd: repoRoot, encoding: 'utf8', timeout: 60000 });
+    return { status: result.status, stdout: result.stdout };
+}
+
+/**
+ * Runs `main` without printing its usage errors.
+ */
+async function runQuietly(argv: string[]): Promise<number> {
+    const write = process.stderr.write;
+    process.stderr.write = () => true;
+    try {
+        return await main(argv);
+    } finally {
+        process.stderr.write = write;
+    }
+}
+
+suite('polycrate-lint', () => {
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-lint-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    suite('arguments', () => {
+        test('exits with 2 on unknown options, formats and missing values', async () => {
+            assert.strictEqual(await runQuietly(['--unknown', 'examples']), 2);
+            assert.strictEqual(await runQuietly(['--format', 'xml', 'examples']), 2);
+            assert.strictEqual(await runQuietly(['examples', '--output']), 2);
+            assert.strictEqual(await runQuietly(['--format', '--no-cli', 'examples']), 2);
+        });
+
+        test('exits with 2 without exactly one existing directory', async () => {
+            assert.strictEqual(await runQuietly(['--no-cli']), 2);
+            assert.strictEqual(await runQuietly(['--no-cli', 'examples', 'test-workspace']), 2);
+            assert.strictEqual(await runQuietly(['--no-cli', path.join(tmpDir, 'missing')]), 2);
+        });
+
+        test('reads the format and output file', async () => {
+            const output = path.join(tmpDir, 'report.sarif');
+            assert.strictEqual(await main(['-f', 'sarif', '-o', output, '--no-cli', path.join(repoRoot, 'examples')]), 0);
+            assert.strictEqual(JSON.parse(fs.readFileSync(output, 'utf8')).version, '2.1.0');
+        });
+    });
+
+    suite('exit codes', () => {
+        test('is 1 when errors are reported', async () => {
+            const dir = path.join(tmpDir, 'workspace');
+            fs.mkdirSync(dir);
+            fs.writeFileSync(path.join(dir, 'workspace.poly'), 'name: demo\norganization: acme\nblocks:\n  - name: app\n');
+            assert.strictEqual(await main(['--no-cli', '-o', path.join(tmpDir, 'report.txt'), dir]), 1);
+        });
+
+        test('is 0 when only warnings are reported', async () => {
+            const dir = path.join(tmpDir, 'workspace');
+            fs.mkdirSync(dir);
+            fs.writeFileSync(path.join(dir, 'workspace.poly'), 'name: demo\norganization: acme\ndescription: "{{ .Unknown }}"\n');
+            const output = path.join(tmpDir, 'report.json');
+            assert.strictEqual(await main(['--no-cli', '-f', 'json', '-o', output, dir]), 0);
+            const report = JSON.parse(fs.readFileSync(output, 'utf8'));
+            assert.strictEqual(report.errors, 0);
+            assert.ok(report.warnings > 0);
+        });
+    });
+
+    suite('settings', () => {
+        test('applies rule severities from .vscode/settings.json with comments and trailing commas', async () => {
+            const dir = path.join(tmpDir, 'workspace');
+            fs.mkdirSync(path.join(dir, '.vscode'), { recursive: true });
+            fs.writeFileSync(path.join(dir, 'workspace.poly'), 'name: demo\norganization: acme\nblocks:\n  - name: app\n');
+            fs.writeFileSync(path.join(dir, '.vscode', 'settings.json'), [
+                '{',
+                '    // Blocks are checked in a later stage',
+                '    "polycrate.validation.rules": { "schema-required": "off", },',
+                '    /* "polycrate.cli.path": "/opt/polycrate" */',
+                '    "polycrate.cli.path": "http://localhost/polycrate",',
+                '}'
+            ].join('\n'));
+            const output = path.join(tmpDir, 'report.json');
+            assert.strictEqual(await main(['--no-cli', '-f', 'json', '-o', output, dir]), 0);
+            const rules = JSON.parse(fs.readFileSync(output, 'utf8')).files[0].issues.map((issue: any) => issue.rule);
+            assert.ok(!rules.includes('schema-required'));
+        });
+    });
+
+    suite('bin', () => {
+        test('lints examples/', () => {
+            const result = runBin('--no-cli', '-f', 'json', 'examples');
+            assert.strictEqual(result.status, 0);
+            const report = JSON.parse(result.stdout);
+            assert.deepStrictEqual(report.files.map((file: any) => file.file).sort(), ['CHANGELOG.poly', 'block.poly', 'workspace.poly']);
+            assert.strictEqual(report.errors, 0);
+            // The k8sapp entries declare a namespace and no entry uses block.poly
+            assert.ok(!result.stdout.includes('k8sapp-namespace'));
+        });
+
+        test('lints test-workspace/ and fails on its invalid block kind', () => {
+            const result = runBin('--no-cli', 'test-workspace');
+            assert.strictEqual(result.status, 1);
+            assert.ok(result.stdout.includes('workspace-test.poly:6:11: error Missing required field: kind [schema-required]'));
+            // from references are checked without the CLI
+            assert.ok(result.stdout.includes('workspace-test.poly:21:11: warning Block \'block4\' uses \'from: registry.example.com/blocks/base:latest\' with \'latest\' tag. Pin a specific version for reproducible builds [from-latest-tag]'));
+            assert.ok(result.stdout.trimEnd().endsWith('5 files checked, 1 errors, 6 warnings'));
+        });
+
+        test('prints help and exits with 0', () => {
+            const result = runBin('--help');
+            assert.strictEqual(result.status, 0);
+            assert.ok(result.stdout.startsWith('Usage: polycrate-lint'));
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PolycrateLinter } from '../polycrateLinter';
+// The module object itself, whose functions the linter calls through
+import nodeFs = require('fs');
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('PolycrateLinter', () => {
+    const linter = new PolycrateLinter(path.join(repoRoot, 'schemas'));
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-linter-'));
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\nconfig:\n  blocksconfig: polycrate.yml\nblocks:\n  - name: app\n');
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app'), { recursive: true });
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('reads workspace.poly once per run', async () => {
+        const filePath = path.join(tmpDir, 'blocks', 'app', 'polycrate.yml');
+        const content = 'name: app\nkind: generic\nconfig:\n  password: "{{ .Workspace.Config.Globals.password }}"\n';
+        fs.writeFileSync(filePath, content);
+
+        const readFileSync = nodeFs.readFileSync;
+        let workspaceReads = 0;
+        (nodeFs as any).readFileSync = (...args: any[]) => {
+            if (path.basename(String(args[0])) === 'workspace.poly') {
+                workspaceReads++;
+            }
+            return (readFileSync as any)(...args);
+        };
+        try {
+            const issues = await linter.lint({ filePath, content });
+            // The blocksconfig file is recognized as a block config
+            assert.ok(issues.some(issue => issue.rule === 'template-unresolved'));
+        } finally {
+            nodeFs.readFileSync = readFileSync;
+        }
+        assert.strictEqual(workspaceReads, 1);
+    });
+
+    test('requires kind only on block entries without from or a local block', async () => {
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'app', 'polycrate.yml'), 'name: app\nkind: generic\n');
+        const filePath = path.join(tmpDir, 'workspace.poly');
+        const content = 'name: demo\norganization: acme\nconfig:\n  blocksconfig: polycrate.yml\nblocks:\n  - name: app\n  - name: base\n    from: registry.local/org/base:1.0.0\n  - name: orphan\n';
+        fs.writeFileSync(filePath, content);
+
+        const issues = (await linter.lint({ filePath, content })).filter(issue => issue.rule === 'schema-required');
+        assert.deepStrictEqual(issues.map(issue => content.substring(issue.range!.start, issue.range!.end)), ['orphan']);
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { PolycrateSecretValidator } from '../secretValidator';
+import { parsePolyDocument } from '../yamlAst';
+
+function findRules(content: string): string[] {
+    return new PolycrateSecretValidator().validate(parsePolyDocument(content), content, false, undefined).map(issue => issue.rule);
+}
+
+suite('secret detection', () => {
+    test('credential keys with plain values are reported', () => {
+        for (const key of ['api_key', 'accessKey', 'secret_key', 'private_key', 'auth_key', 'password', 'apikey']) {
+            assert.deepStrictEqual(findRules(`name: app\nconfig:\n  ${key}: hunter2\n`), ['secret-plaintext'], key);
+        }
+    });
+
+    test('lookup keys with ordinary values are not secrets', () => {
+        for (const key of ['cache_key', 'sort_key', 'key', 'partitionKey']) {
+            assert.deepStrictEqual(findRules(`name: app\nconfig:\n  ${key}: created_at\n`), [], key);
+        }
+    });
+
+    test('lookup keys with random values are still reported', () => {
+        assert.deepStrictEqual(findRules('name: app\nconfig:\n  cache_key: Zx8kQ2mP9vL4tR7wN3bY6cH1\n'), ['secret-plaintext']);
+    });
+
+    test('key files referenced by path are ignored', () => {
+        assert.deepStrictEqual(findRules('name: app\nconfig:\n  private_key: ./keys/id_rsa\n'), []);
+    });
+});
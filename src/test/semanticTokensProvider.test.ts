@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { PolycrateCliService } from '../cliService';
+import { LanguageServerHost, PolycrateLanguageServer } from '../languageServer';
+import { PolycrateSemanticTokensProvider } from '../semanticTokensProvider';
+import { defaultSettings } from '../settings';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('semantic tokens', () => {
+    let tmpDir: string;
+    let provider: PolycrateSemanticTokensProvider;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-tokens-'));
+        fs.writeFileSync(path.join(tmpDir, 'workspace.poly'), 'name: demo\norganization: acme\n');
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app'), { recursive: true });
+        const cli = { isAvailable: async () => false } as unknown as PolycrateCliService;
+        const host: LanguageServerHost = { getSettings: async () => defaultSettings, getWorkspaceFolders: () => [tmpDir], getDocumentText: () => undefined, log: () => undefined };
+        provider = new PolycrateSemanticTokensProvider(new PolycrateLanguageServer(host, cli, path.join(repoRoot, 'schemas')));
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    /** The tokens of a document as `<text> <type>`, with `!` marking unresolved ones */
+    function tokenize(fileName: string, content: string): string[] {
+        const filePath = path.join(tmpDir, fileName);
+        fs.writeFileSync(filePath, content);
+        const document = TextDocument.create(URI.file(filePath).toString(), 'polycrate', 1, content);
+        const { data } = provider.provideSemanticTokens(document);
+        const { tokenTypes, tokenModifiers } = PolycrateSemanticTokensProvider.legend;
+        const tokens: string[] = [];
+        let line = 0;
+        let character = 0;
+        for (let i = 0; i < data.length; i += 5) {
+            line += data[i];
+            character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+            const text = document.getText({ start: { line, character }, end: { line, character: character + data[i + 2] } });
+            tokens.push(`${text} ${tokenTypes[data[i + 3]]}${data[i + 4] & (1 << tokenModifiers.indexOf('unresolved')) ? '!' : ''}`);
+        }
+        return tokens;
+    }
+
+    test('template expressions are split into delimiters, roots, fields and pipes', () => {
+        const content = 'name: app\nkind: generic\nconfig:\n  replicas: 1\nactions:\n  - name: run\n    script:\n      - echo {{- .Block.Config.replicas | quote }} {{ .Block.Config.missing.port }}\n';
+        assert.deepStrictEqual(tokenize('blocks/app/block.poly', content), [
+            '{{- macro', 'Block variable', 'Config property', 'replicas property', '| operator', '}} macro',
+            '{{ macro', 'Block variable', 'Config property', 'missing property!', 'port property!', '}} macro'
+        ]);
+    });
+
+    test('fields inside range bodies are not checked against the block', () => {
+        const content = 'name: app\nkind: generic\nconfig:\n  hosts: []\nactions:\n  - name: run\n    script:\n      - "{{ range .Block.Config.hosts }}{{ .name }}{{ $.Block.Config.other }}{{ end }}"\n';
+        assert.deepStrictEqual(tokenize('blocks/app/block.poly', content), [
+            '{{ macro', 'Block variable', 'Config property', 'hosts property', '}} macro',
+            '{{ macro', '}} macro',
+            '{{ macro', 'Block variable', 'Config property', 'other property!', '}} macro',
+            '{{ macro', '}} macro'
+        ]);
+    });
+
+    test('block and action references are highlighted without quotes', () => {
+        const content = 'name: demo\norganization: acme\nblocks:\n  - name: web\n    from: "registry.local/org/app:1.0.0"\nworkflows:\n  - name: all\n    steps:\n      - name: install\n        block: web\n        action: install\n      - name: empty\n        block:\n';
+        assert.deepStrictEqual(tokenize('workspace.poly', content), [
+            'registry.local/org/app:1.0.0 namespace',
+            'web namespace',
+            'install function'
+        ]);
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { PolycrateTemplateValidator, TemplateContext } from '../templateValidator';
+import { parsePolyDocument } from '../yamlAst';
+
+const context: TemplateContext = {
+    globals: { domain: 'example.com' },
+    scopeAt: () => ({ hasBlock: true, blockConfig: { hosts: [{ name: 'a' }] } })
+};
+
+function findIssues(script: string): string[] {
+    const content = `name: app\nactions:\n  - name: run\n    script:\n      - ${JSON.stringify(script)}\n`;
+    return new PolycrateTemplateValidator().validate(parsePolyDocument(content), content, context)
+        .map(issue => `${issue.rule} ${content.substring(issue.range!.start, issue.range!.end)}`);
+}
+
+suite('template references', () => {
+    test('fields of the current element in range and with bodies are not roots', () => {
+        assert.deepStrictEqual(findIssues('{{ range .Block.Config.hosts }}{{ .name }}{{ end }}'), []);
+        assert.deepStrictEqual(findIssues('{{ with .Block.Config.hosts }}{{ .name }}{{ end }}'), []);
+    });
+
+    test('the pipeline of range and with is checked against the root', () => {
+        assert.deepStrictEqual(findIssues('{{ range .Block.Config.ports }}{{ . }}{{ end }}'), ['template-unresolved ports']);
+    });
+
+    test('references from $ inside a body and after end are checked', () => {
+        assert.deepStrictEqual(
+            findIssues('{{ range .Block.Config.hosts }}{{ $.Workspace.Config.Globals.zone }}{{ end }}{{ .Host }}'),
+            ['template-unresolved zone', 'template-unknown-root Host']
+        );
+    });
+
+    test('keys in the casing of templates resolve against snake_case declarations', () => {
+        assert.deepStrictEqual(findIssues('{{ .Workspace.Config.Globals.Domain }} {{ .Workspace.Config.Globals.domain }}'), []);
+    });
+
+    test('else branches and if bodies keep the outer dot', () => {
+        assert.deepStrictEqual(findIssues('{{ range .Block.Config.hosts }}{{ .name }}{{ else }}{{ .Nope }}{{ end }}'), ['template-unknown-root Nope']);
+        assert.deepStrictEqual(findIssues('{{ if .Block.Config.hosts }}{{ .Nope }}{{ end }}'), ['template-unknown-root Nope']);
+    });
+});
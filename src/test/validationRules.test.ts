@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { ValidationIssue } from '../validationIssue';
+import { applyRuleSettings } from '../validationRules';
+
+const content = [
+    'name: demo',
+    '# polycrate-disable-next-line from-latest-tag',
+    'from: base:latest',
+    'password: hunter2',
+    '# polycrate-disable-next-line',
+    'token: abc'
+].join('\n');
+
+function issueOn(line: number, rule: string): ValidationIssue {
+    const start = content.split('\n').slice(0, line).reduce((offset, text) => offset + text.length + 1, 0);
+    return { message: rule, range: { start, end: start + 4 }, severity: 'warning', rule };
+}
+
+suite('rule settings', () => {
+    test('override severities and drop rules that are off', () => {
+        const issues = [issueOn(0, 'schema-required'), issueOn(3, 'secret-plaintext'), issueOn(0, 'yaml-warning')];
+        const result = applyRuleSettings(issues, content, { 'secret-plaintext': 'error', 'yaml-warning': 'off' });
+        assert.deepStrictEqual(result.map(issue => `${issue.rule} ${issue.severity}`), ['schema-required warning', 'secret-plaintext error']);
+        // The issues passed in are not modified
+        assert.strictEqual(issues[1].severity, 'warning');
+    });
+
+    test('a disable comment with rule IDs suppresses only those rules on the next line', () => {
+        const issues = [issueOn(2, 'from-latest-tag'), issueOn(2, 'secret-token'), issueOn(3, 'secret-plaintext')];
+        assert.deepStrictEqual(applyRuleSettings(issues, content, {}).map(issue => issue.rule), ['secret-token', 'secret-plaintext']);
+    });
+
+    test('a disable comment without rule IDs suppresses every rule on the next line', () => {
+        const issues = [issueOn(5, 'secret-plaintext'), issueOn(5, 'secret-high-entropy')];
+        assert.deepStrictEqual(applyRuleSettings(issues, content, {}), []);
+    });
+
+    test('issues without a range are kept', () => {
+        const issue: ValidationIssue = { message: 'failed', range: undefined, severity: 'warning', rule: 'rule-pack-load-failed' };
+        assert.deepStrictEqual(applyRuleSettings([issue], content, {}), [issue]);
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PolycrateLinter } from '../polycrateLinter';
+
+const repoRoot = path.resolve(__dirname, '..', '..');
+
+suite('workflow steps', () => {
+    const linter = new PolycrateLinter(path.join(repoRoot, 'schemas'));
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'polycrate-workflows-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    async function lintWorkspace(content: string): Promise<string[]> {
+        const filePath = path.join(tmpDir, 'workspace.poly');
+        fs.writeFileSync(filePath, content);
+        return (await linter.lint({ filePath, content })).map(issue => issue.rule);
+    }
+
+    test('a step that runs another workflow is not empty', async () => {
+        const rules = await lintWorkspace('name: demo\norganization: acme\nworkflows:\n  - name: all\n    steps:\n      - name: install\n        workflow: install\n');
+        assert.ok(!rules.includes('workflow-step-empty'));
+    });
+
+    test('a step without a target is empty', async () => {
+        const rules = await lintWorkspace('name: demo\norganization: acme\nworkflows:\n  - name: all\n    steps:\n      - name: nothing\n');
+        assert.ok(rules.includes('workflow-step-empty'));
+    });
+
+    test('actions of a local block are found through its declared name', async () => {
+        fs.mkdirSync(path.join(tmpDir, 'blocks', 'app-dir'), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, 'blocks', 'app-dir', 'block.poly'), 'name: app\nactions:\n  - name: install\n    script:\n      - echo install\n');
+        const workflow = 'name: demo\norganization: acme\nworkflows:\n  - name: all\n    steps:\n      - name: install\n        block: app\n        action: ';
+
+        assert.ok(!(await lintWorkspace(`${workflow}install\n`)).includes('workflow-unknown-action'));
+        assert.ok((await lintWorkspace(`${workflow}uninstall\n`)).includes('workflow-unknown-action'));
+    });
+});
@@ -0,0 +1,49 @@
+import { OffsetRange } from './yamlAst';
+
+export type IssueSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * A location that helps explain an issue, e.g. the other definition of a
+ * duplicate name. Without `filePath` it refers to the validated document.
+ */
+export interface RelatedLocation {
+    message: string;
+    range: OffsetRange | undefined;
+    filePath?: string;
+}
+
+/**
+ * A text replacement. Without `filePath` it applies to the validated document.
+ */
+export interface FileEdit {
+    filePath?: string;
+    range: OffsetRange;
+    newText: string;
+}
+
+/**
+ * A text replacement that resolves an issue, offered as a quick fix.
+ */
+export interface IssueFix {
+    title: string;
+    range: OffsetRange;
+    newText: string;
+    /** Further edits applied together with the replacement, e.g. in workspace.poly */
+    additionalEdits?: FileEdit[];
+}
+
+/**
+ * A validation finding expressed in source offsets, independent of the
+ * editor API. The language server converts these into diagnostics.
+ */
+export interface ValidationIssue {
+    message: string;
+    range: OffsetRange | undefined;
+    severity: IssueSeverity;
+    /** Stable rule ID, see validationRules.ts */
+    rule: string;
+    related?: RelatedLocation[];
+    fix?: IssueFix;
+    /** Documentation of rules that are not described in RULES.md, e.g. house rules */
+    docsUrl?: string;
+}
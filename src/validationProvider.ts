@@ -1,51 +1,211 @@
-import * as vscode from 'vscode';
-import { PolycrateLanguageServer } from './languageServer';
+import * as fs from 'fs';
+import { CancellationToken, CancellationTokenSource, Connection, Diagnostic, FileChangeType, FileEvent, TextDocumentChangeEvent, TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { LanguageServerHost, PolycrateLanguageServer } from './languageServer';
+import { findPolyFiles } from './polycrateLinter';
+import { ValidationScope } from './settings';
 
+// Delay after the last keystroke before a document is validated
+const validationDelay = 400;
+
+/**
+ * Publishes diagnostics for open documents and, in workspace scope, for
+ * every .poly file of the workspace folders.
+ */
 export class PolycrateValidationProvider {
-    private diagnosticCollection: vscode.DiagnosticCollection;
+    private connection: Connection;
+    private documents: TextDocuments<TextDocument>;
     private languageServer: PolycrateLanguageServer;
+    private host: LanguageServerHost;
+    private pendingTimers = new Map<string, NodeJS.Timeout>();
+    private runningValidations = new Map<string, CancellationTokenSource>();
+    // Documents whose first content (the open event) has been seen
+    private openedUris = new Set<string>();
+    // Files that currently have diagnostics, so they can be cleared
+    private publishedUris = new Set<string>();
+    private scope: ValidationScope = 'openFiles';
+
+    constructor(connection: Connection, documents: TextDocuments<TextDocument>, languageServer: PolycrateLanguageServer, host: LanguageServerHost) {
+        this.connection = connection;
+        this.documents = documents;
+        this.languageServer = languageServer;
+        this.host = host;
 
-    constructor(context: vscode.ExtensionContext) {
-        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('polycrate');
-        this.languageServer = new PolycrateLanguageServer(context);
-        
-        // Listen for document changes
-        vscode.workspace.onDidChangeTextDocument(this.onDocumentChange, this);
-        vscode.workspace.onDidOpenTextDocument(this.onDocumentOpen, this);
-        vscode.workspace.onDidCloseTextDocument(this.onDocumentClose, this);
-        
-        // Validate all open documents
-        vscode.workspace.textDocuments.forEach(this.validateDocument, this);
+        documents.onDidChangeContent(this.onDocumentChange, this);
+        documents.onDidClose(this.onDocumentClose, this);
     }
 
-    private onDocumentChange(event: vscode.TextDocumentChangeEvent): void {
-        if (event.document.languageId === 'polycrate') {
-            this.validateDocument(event.document);
+    /**
+     * Applies changed settings. Switching to workspace scope validates every
+     * file; switching back drops the diagnostics of files that are not open.
+     */
+    public async onConfigurationChange(): Promise<void> {
+        const previousScope = this.scope;
+        this.scope = (await this.host.getSettings()).validation.scope;
+
+        // Rules and schemas may have changed
+        this.documents.all().forEach(document => this.scheduleValidation(document, 0));
+
+        if (this.scope === 'workspace' && previousScope !== 'workspace') {
+            this.validateWorkspace().catch(error => this.host.log(`Workspace validation failed: ${error}`));
+        } else if (this.scope !== 'workspace') {
+            for (const uri of [...this.publishedUris]) {
+                if (!this.documents.get(uri)) {
+                    this.clearDiagnostics(uri);
+                }
+            }
         }
     }
 
-    private onDocumentOpen(document: vscode.TextDocument): void {
-        if (document.languageId === 'polycrate') {
-            this.validateDocument(document);
+    /**
+     * Validates every .poly file in the workspace folders, including files
+     * that are not open. Returns the number of validated files.
+     */
+    public async validateWorkspace(token?: CancellationToken): Promise<number> {
+        const filePaths = this.host.getWorkspaceFolders().flatMap(folder => findPolyFiles(folder));
+        let count = 0;
+
+        // Sequential, so a large workspace does not start one CLI run per file
+        for (const filePath of filePaths) {
+            if (token && token.isCancellationRequested) {
+                break;
+            }
+            await this.validateFile(filePath);
+            count++;
+        }
+
+        return count;
+    }
+
+    /**
+     * Keeps diagnostics of files that are not open in an editor current.
+     */
+    public onWatchedFilesChange(changes: FileEvent[]): void {
+        for (const change of changes) {
+            const filePath = URI.parse(change.uri).fsPath;
+            this.languageServer.invalidateSnapshots(filePath);
+
+            if (change.type === FileChangeType.Deleted) {
+                this.cancelPending(change.uri);
+                this.clearDiagnostics(change.uri);
+            } else if (this.scope === 'workspace' && !this.documents.get(change.uri)) {
+                // Open documents are validated from the editor buffer instead
+                this.validateFile(filePath);
+            }
+        }
+    }
+
+    private async validateFile(filePath: string): Promise<void> {
+        const uri = URI.file(filePath).toString();
+        const openDocument = this.documents.get(uri);
+        if (openDocument) {
+            await this.validateDocument(openDocument);
+            return;
+        }
+
+        try {
+            await this.validateDocument(TextDocument.create(uri, 'polycrate', 0, fs.readFileSync(filePath, 'utf8')));
+        } catch (error) {
+            this.host.log(`Error validating ${filePath}: ${error}`);
         }
     }
 
-    private onDocumentClose(document: vscode.TextDocument): void {
-        if (document.languageId === 'polycrate') {
-            this.diagnosticCollection.delete(document.uri);
+    private onDocumentChange(event: TextDocumentChangeEvent<TextDocument>): void {
+        // The first content of a document is its opening, which is validated right away
+        const isOpening = !this.openedUris.has(event.document.uri);
+        this.openedUris.add(event.document.uri);
+        this.scheduleValidation(event.document, isOpening ? 0 : validationDelay);
+    }
+
+    private onDocumentClose(event: TextDocumentChangeEvent<TextDocument>): void {
+        const uri = event.document.uri;
+        this.openedUris.delete(uri);
+        this.cancelPending(uri);
+        // In workspace scope the file keeps its diagnostics; the watcher updates them on save
+        if (this.scope !== 'workspace') {
+            this.clearDiagnostics(uri);
+        }
+    }
+
+    private scheduleValidation(document: TextDocument, delay: number): void {
+        const key = document.uri;
+        this.cancelPending(key);
+        this.pendingTimers.set(key, setTimeout(() => {
+            this.pendingTimers.delete(key);
+            this.validateDocument(document);
+        }, delay));
+    }
+
+    /**
+     * Stops a scheduled validation and cancels one that is still waiting for
+     * the CLI, so its outdated result is never published.
+     */
+    private cancelPending(key: string): void {
+        const timer = this.pendingTimers.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.pendingTimers.delete(key);
+        }
+        const running = this.runningValidations.get(key);
+        if (running) {
+            running.cancel();
+            running.dispose();
+            this.runningValidations.delete(key);
         }
     }
 
-    private async validateDocument(document: vscode.TextDocument): Promise<void> {
+    private async validateDocument(document: TextDocument): Promise<void> {
+        const key = document.uri;
+        const previous = this.runningValidations.get(key);
+        if (previous) {
+            previous.cancel();
+            previous.dispose();
+        }
+        const tokenSource = new CancellationTokenSource();
+        this.runningValidations.set(key, tokenSource);
+        const isOpen = this.documents.get(key) === document;
+        const version = document.version;
+
         try {
-            const diagnostics = await this.languageServer.validateFile(document);
-            this.diagnosticCollection.set(document.uri, diagnostics);
+            const settings = await this.host.getSettings(key);
+            const diagnostics = settings.validation.enable ? await this.languageServer.validateFile(document, tokenSource.token) : [];
+            // Drop results of runs that were superseded by a newer edit, and
+            // background results for files that were opened in the meantime
+            const current = this.documents.get(key);
+            const isStale = isOpen ? !current || current.version !== version : current !== undefined;
+            if (tokenSource.token.isCancellationRequested || isStale) {
+                return;
+            }
+            this.publishDiagnostics(key, diagnostics);
         } catch (error) {
-            console.error('Error validating document:', error);
+            this.host.log(`Error validating document: ${error}`);
+        } finally {
+            if (this.runningValidations.get(key) === tokenSource) {
+                this.runningValidations.delete(key);
+                tokenSource.dispose();
+            }
+        }
+    }
+
+    private publishDiagnostics(uri: string, diagnostics: Diagnostic[]): void {
+        this.connection.sendDiagnostics({ uri, diagnostics });
+        if (diagnostics.length > 0) {
+            this.publishedUris.add(uri);
+        } else {
+            this.publishedUris.delete(uri);
+        }
+    }
+
+    private clearDiagnostics(uri: string): void {
+        if (this.publishedUris.delete(uri)) {
+            this.connection.sendDiagnostics({ uri, diagnostics: [] });
         }
     }
 
     public dispose(): void {
-        this.diagnosticCollection.dispose();
+        for (const key of [...this.pendingTimers.keys(), ...this.runningValidations.keys()]) {
+            this.cancelPending(key);
+        }
     }
-}
\ No newline at end of file
+}
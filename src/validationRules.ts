@@ -0,0 +1,99 @@
+import { IssueSeverity, ValidationIssue } from './validationIssue';
+
+export type RuleSetting = IssueSeverity | 'off';
+
+export interface RuleSettings {
+    [rule: string]: RuleSetting;
+}
+
+/**
+ * All rule IDs reported by the validators. IDs are part of the user-facing
+ * configuration (`polycrate.validation.rules`, suppression comments), so they
+ * must not be renamed.
+ */
+export const validationRules: { [rule: string]: string } = {
+    'yaml-syntax': 'The file is not valid YAML',
+    'yaml-warning': 'The YAML parser reported a warning',
+    'schema-required': 'A required field is missing',
+    'schema-unknown-field': 'A field is not part of the Polycrate schema',
+    'schema-enum': 'A field has a value outside of its allowed values',
+    'schema-type': 'A field has the wrong type',
+    'schema-invalid': 'A field violates another schema constraint',
+    'schema-load-failed': 'A schema configured in polycrate.validation.schemas could not be loaded',
+    'changelog-version-format': 'A changelog version is not a semantic version',
+    'changelog-duplicate-version': 'A changelog version is listed more than once',
+    'changelog-order': 'Changelog entries are not ordered newest first',
+    'changelog-date-format': 'A changelog date is not an ISO 8601 date',
+    'changelog-missing-description': 'A changelog entry has no description',
+    'changelog-version-mismatch': 'The newest changelog version differs from the block version',
+    'template-delimiter': 'A template expression has unbalanced {{ }} delimiters',
+    'template-unknown-root': 'A template expression uses an unknown root such as .Foo',
+    'template-unknown-field': 'A template expression uses an unknown field of .Block, .Workspace, .Action or .Prompt',
+    'template-unresolved': 'A template path does not resolve against the block config or workspace globals',
+    'workflow-step-empty': 'A workflow step has neither block/action, script nor workflow',
+    'workflow-unknown-block': 'A workflow step references a block that does not exist',
+    'workflow-unknown-action': 'A workflow step references an action the block does not have',
+    'duplicate-name': 'A block, action or workflow name is defined more than once',
+    'block-directory-mismatch': 'The name of a local block differs from its directory',
+    'config-unknown-key': 'A block config override uses a key the block does not declare',
+    'config-type-mismatch': 'A block config override has a different type than the declared default',
+    'from-latest-tag': "A 'from' reference uses the 'latest' tag",
+    'from-missing-version': "A 'from' reference has no version",
+    'secret-plaintext': 'A key such as password or token holds a literal value',
+    'secret-token': 'A value contains a token with a well-known prefix or a private key',
+    'secret-high-entropy': 'A value looks like a randomly generated secret',
+    'prompt-input-not-interactive': 'A script uses .Prompt.Input in an action that is not interactive',
+    'prompt-missing-message': 'An interactive action has no prompt.message',
+    'prompt-unused': 'An action declares a prompt that its script never uses',
+    'destructive-without-prompt': 'An action runs a destructive command without a confirmation prompt',
+    'path-not-found': 'A referenced file or directory does not exist or has the wrong type',
+    'ssh-key-permissions': 'The workspace SSH private key is accessible by other users',
+    'k8sapp-namespace': 'A k8sapp block does not declare config.namespace',
+    'k8sapp-kubeconfig': 'A k8sapp block has no kubeconfig source',
+    'connection-endpoint': 'A db, kv or mq block does not expose config.connection.endpoint and port',
+    'ha-replicas': 'A block with supports_ha: true configures neither replicas nor a cluster',
+    'rule-pack-load-failed': 'A rule pack configured in polycrate.validation.rulePacks could not be loaded',
+    'action-missing-script': "An action has neither 'script' nor 'playbook'",
+    'workspace-missing-field': 'The workspace snapshot has no name or organization',
+    'block-missing-name': 'A block in the workspace snapshot has no name',
+    'action-missing-name': 'An action in the workspace snapshot has no name',
+    'block-not-in-workspace': 'A block is not part of the workspace snapshot',
+    'cli-error': 'The Polycrate CLI reported an error'
+};
+
+export const ruleDocsUrl = 'https://github.com/ayedo/polycrate-vscode/blob/main/RULES.md';
+
+const suppressionPattern = /#\s*polycrate-disable-next-line\b(.*)$/;
+
+/**
+ * Applies per-rule severities from the settings and drops issues that are
+ * turned off or suppressed with `# polycrate-disable-next-line [rule ...]`
+ * on the preceding line. Without rule IDs the comment suppresses all rules.
+ */
+export function applyRuleSettings(issues: ValidationIssue[], content: string, settings: RuleSettings): ValidationIssue[] {
+    const lines = content.split('\n');
+    const suppressions = new Map<number, string[]>();
+    lines.forEach((line, index) => {
+        const match = line.match(suppressionPattern);
+        if (match) {
+            suppressions.set(index + 1, match[1].split(/[\s,]+/).filter(rule => rule));
+        }
+    });
+
+    const result: ValidationIssue[] = [];
+    for (const issue of issues) {
+        const setting = settings[issue.rule];
+        if (setting === 'off') {
+            continue;
+        }
+        if (issue.range && suppressions.size > 0) {
+            const line = content.substring(0, issue.range.start).split('\n').length - 1;
+            const suppressed = suppressions.get(line);
+            if (suppressed && (suppressed.length === 0 || suppressed.includes(issue.rule))) {
+                continue;
+            }
+        }
+        result.push(setting ? { ...issue, severity: setting } : issue);
+    }
+    return result;
+}
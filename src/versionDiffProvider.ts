@@ -1,13 +1,17 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { spawn } from 'child_process';
+import { PolycrateCliService } from './cliService';
+import { PolycrateWorkspaceModel } from './workspaceModel';
 
 export class PolycrateVersionDiffProvider {
     private context: vscode.ExtensionContext;
     private outputChannel: vscode.OutputChannel;
+    private cli: PolycrateCliService;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, cli: PolycrateCliService) {
         this.context = context;
+        this.cli = cli;
         this.outputChannel = vscode.window.createOutputChannel('Polycrate Version Diff');
     }
 
@@ -80,19 +84,8 @@ export class PolycrateVersionDiffProvider {
 
     private async getCurrentWorkspaceBlocks(workspaceRoot: string): Promise<any[]> {
         try {
-            const result = await this.runPolycrateCommand(['workspace', 'snapshot'], workspaceRoot);
-            
-            let yaml;
-            try {
-                yaml = require('yaml');
-            } catch (requireError) {
-                throw new Error('YAML module not available');
-            }
-
-            const snapshot = yaml.parse(result);
-            const workspace = snapshot.workspace || snapshot;
-            
-            return workspace.blocks || [];
+            const snapshot = await this.cli.getWorkspaceSnapshot(workspaceRoot);
+            return snapshot.workspace.blocks || [];
         } catch (error) {
             this.outputChannel.appendLine(`Error getting workspace blocks: ${error}`);
             return [];
@@ -217,18 +210,8 @@ export class PolycrateVersionDiffProvider {
                 // Extract registry URL from 'from' field
                 const fromParts = block.from.split('/');
                 if (fromParts.length >= 2) {
-                    const result = await this.runPolycrateCommand([
-                        'blocks', 'search', '--registry', fromParts[0], block.name
-                    ], workspaceRoot);
-                    
-                    let yaml;
-                    try {
-                        yaml = require('yaml');
-                    } catch (requireError) {
-                        return null;
-                    }
-
-                    return yaml.parse(result);
+                    const results = await this.cli.searchBlocks(block.name, { registry: fromParts[0], cwd: workspaceRoot });
+                    return results.find(result => result.name === block.name) || results[0] || null;
                 }
             }
             
@@ -241,7 +224,8 @@ export class PolycrateVersionDiffProvider {
 
     private async getBlockGitHistory(blockName: string, workspaceRoot: string): Promise<any[]> {
         try {
-            const blockPath = path.join('blocks', blockName);
+            const model = PolycrateWorkspaceModel.load(workspaceRoot);
+            const blockPath = model.toRelativePath(model.getBlockDir(blockName));
             const result = await this.runGitCommand([
                 'log', '--oneline', '--pretty=format:%H|%s|%ad', '--date=short', '--', blockPath
             ], workspaceRoot);
@@ -262,7 +246,8 @@ export class PolycrateVersionDiffProvider {
 
     private async getBlockFromCommit(blockName: string, commitHash: string, workspaceRoot: string): Promise<any> {
         try {
-            const blockPath = path.join('blocks', blockName, 'block.poly');
+            const model = PolycrateWorkspaceModel.load(workspaceRoot);
+            const blockPath = model.toRelativePath(model.getBlockConfigPath(blockName));
             const result = await this.runGitCommand([
                 'show', `${commitHash}:${blockPath}`
             ], workspaceRoot);
@@ -367,41 +352,6 @@ export class PolycrateVersionDiffProvider {
         });
     }
 
-    private async runPolycrateCommand(args: string[], cwd: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const config = vscode.workspace.getConfiguration('polycrate');
-            const cliPath = config.get('cli.path', 'polycrate');
-            
-            const child = spawn(cliPath, args, { 
-                cwd: cwd,
-                stdio: 'pipe'
-            });
-            
-            let stdout = '';
-            let stderr = '';
-            
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
-            });
-            
-            child.stderr.on('data', (data) => {
-                stderr += data.toString();
-            });
-            
-            child.on('close', (code) => {
-                if (code === 0) {
-                    resolve(stdout);
-                } else {
-                    reject(new Error(`Command failed with code ${code}: ${stderr}`));
-                }
-            });
-            
-            child.on('error', (error) => {
-                reject(error);
-            });
-        });
-    }
-
     private async runGitCommand(args: string[], cwd: string): Promise<string> {
         return new Promise((resolve, reject) => {
             const child = spawn('git', args, { 
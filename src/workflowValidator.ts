@@ -0,0 +1,77 @@
+import { Document } from 'yaml';
+import { findPair, findNamedItem, getScalarValue, getSeqItems, itemAnchorRange, valueRange } from './yamlAst';
+import { ValidationIssue } from './validationIssue';
+import { PolycrateBlockResolver } from './blockResolver';
+
+/**
+ * Checks that `workflows[].steps[]` reference blocks and actions that exist
+ * in the workspace.
+ */
+export class PolycrateWorkflowValidator {
+
+    public validate(ast: Document.Parsed, content: string, resolver: PolycrateBlockResolver | undefined): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const root = ast.contents;
+        const workspaceBlocks = getSeqItems(root, ['blocks'])
+            .map(block => getScalarValue(block, 'name'))
+            .filter((name): name is string => !!name);
+        const localBlocks = resolver ? resolver.listLocalBlocks() : [];
+
+        for (const workflow of getSeqItems(root, ['workflows'])) {
+            const workflowName = getScalarValue(workflow, 'name') || 'unnamed';
+
+            for (const step of getSeqItems(workflow, ['steps'])) {
+                const stepName = getScalarValue(step, 'name') || 'unnamed';
+                const blockName = getScalarValue(step, 'block');
+                const actionName = getScalarValue(step, 'action');
+
+                if (!blockName && !actionName && !findPair(step, 'script') && !findPair(step, 'workflow')) {
+                    issues.push({
+                        message: `Step '${stepName}' in workflow '${workflowName}' has neither 'block'/'action', 'script' nor 'workflow'`,
+                        range: itemAnchorRange(step, content),
+                        severity: 'warning',
+                        rule: 'workflow-step-empty'
+                    });
+                    continue;
+                }
+
+                if (!blockName) {
+                    continue;
+                }
+
+                if (!workspaceBlocks.includes(blockName) && !localBlocks.includes(blockName)) {
+                    issues.push({
+                        message: `Step '${stepName}' references unknown block '${blockName}'. It is neither defined in 'blocks' nor found in the blocksroot directory`,
+                        range: valueRange(step, 'block'),
+                        severity: 'error',
+                        rule: 'workflow-unknown-block'
+                    });
+                    continue;
+                }
+
+                if (!actionName) {
+                    continue;
+                }
+
+                const blockNode = findNamedItem(root, 'blocks', blockName);
+                const entry = blockNode ? blockNode.toJSON() : { name: blockName };
+                const resolved = resolver
+                    ? resolver.getActions(entry)
+                    : { actions: new Map((entry.actions || []).map((action: any) => [action.name, action])), complete: !entry.from };
+
+                // Actions inherited from a block that is not available locally cannot be checked
+                if (!resolved.actions.has(actionName) && resolved.complete) {
+                    const available = [...resolved.actions.keys()];
+                    issues.push({
+                        message: `Block '${blockName}' has no action '${actionName}'${available.length ? `. Available actions: ${available.join(', ')}` : ''}`,
+                        range: valueRange(step, 'action'),
+                        severity: 'error',
+                        rule: 'workflow-unknown-action'
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+}
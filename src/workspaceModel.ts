@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePolyDocument } from './yamlAst';
+
+// Files that mark the root directory of a workspace
+const workspaceMarkers = ['workspace.poly', '.workspace', '.polycrate'];
+
+/**
+ * Reads the content of a workspace file. The language server returns the
+ * text of documents open in the editor, which may not be saved yet.
+ */
+export type ReadFile = (filePath: string) => string;
+
+export const readFileFromDisk: ReadFile = filePath => fs.readFileSync(filePath, 'utf8');
+
+/**
+ * Layout of a workspace as configured in its workspace.poly: where blocks
+ * and workflows live and what block config files are called. Every part
+ * of the extension that looks up files of a workspace goes through this
+ * model instead of assuming the defaults.
+ */
+export class PolycrateWorkspaceModel {
+    public readonly root: string;
+    /** The parsed workspace.poly, or an empty object if there is none */
+    public readonly workspace: any;
+    /** Absolute path of `config.blocksroot` */
+    public readonly blocksRoot: string;
+    /** `config.blocksconfig`, the file name of block configs */
+    public readonly blockConfigFile: string;
+    /** Absolute path of `config.workflowsroot` */
+    public readonly workflowsRoot: string;
+
+    /**
+     * `workspace` is the content of workspace.poly. Callers that validate an
+     * unsaved workspace.poly pass the editor content instead of the file.
+     */
+    constructor(root: string, workspace: any) {
+        const config = (workspace && typeof workspace.config === 'object' && workspace.config) || {};
+        this.root = root;
+        this.workspace = workspace || {};
+        this.blocksRoot = path.resolve(root, stringOr(config.blocksroot, 'blocks'));
+        this.blockConfigFile = stringOr(config.blocksconfig, 'block.poly');
+        this.workflowsRoot = path.resolve(root, stringOr(config.workflowsroot, 'workflows'));
+    }
+
+    /**
+     * Reads the workspace.poly below `root`. A missing or unreadable file
+     * leaves the defaults in place.
+     */
+    public static load(root: string): PolycrateWorkspaceModel {
+        let workspace: any;
+        try {
+            const workspacePath = path.join(root, 'workspace.poly');
+            if (fs.existsSync(workspacePath)) {
+                workspace = parsePolyDocument(fs.readFileSync(workspacePath, 'utf8')).toJS();
+            }
+        } catch (error) {
+            workspace = undefined;
+        }
+        return new PolycrateWorkspaceModel(root, workspace);
+    }
+
+    /**
+     * Directory of a block below blocksroot. Registry blocks pulled into the
+     * workspace live in nested directories, so `name` may contain slashes.
+     */
+    public getBlockDir(name: string): string {
+        return path.join(this.blocksRoot, name);
+    }
+
+    public getBlockConfigPath(name: string): string {
+        return path.join(this.getBlockDir(name), this.blockConfigFile);
+    }
+
+    /**
+     * Whether `filePath` is a block config: a file named `blocksconfig` below
+     * blocksroot. block.poly files are always block configs.
+     */
+    public isBlockConfig(filePath: string): boolean {
+        const fileName = path.basename(filePath);
+        if (fileName === 'block.poly') {
+            return true;
+        }
+        return fileName === this.blockConfigFile && !path.relative(this.blocksRoot, filePath).startsWith('..');
+    }
+
+    /**
+     * `filePath` relative to the workspace root with forward slashes, as git
+     * and the Polycrate CLI expect it.
+     */
+    public toRelativePath(filePath: string): string {
+        return path.relative(this.root, filePath).split(path.sep).join('/');
+    }
+}
+
+/**
+ * Whether `filePath` is a block config: block.poly, or a file named after
+ * the workspace's `config.blocksconfig` below its blocksroot. Without a
+ * `model` the workspace of the file is looked up.
+ */
+export function isBlockConfigFile(filePath: string, model?: PolycrateWorkspaceModel): boolean {
+    if (path.basename(filePath) === 'block.poly') {
+        return true;
+    }
+    if (!model) {
+        const workspaceRoot = findWorkspaceRoot(path.dirname(filePath));
+        return workspaceRoot !== null && PolycrateWorkspaceModel.load(workspaceRoot).isBlockConfig(filePath);
+    }
+    return model.isBlockConfig(filePath);
+}
+
+/**
+ * The nearest directory at or above `startDir` that contains a workspace
+ * marker (workspace.poly, .workspace or .polycrate), or null.
+ */
+export function findWorkspaceRoot(startDir: string): string | null {
+    let currentDir = startDir;
+    while (currentDir !== path.dirname(currentDir)) {
+        if (workspaceMarkers.some(file => fs.existsSync(path.join(currentDir, file)))) {
+            return currentDir;
+        }
+        currentDir = path.dirname(currentDir);
+    }
+    return null;
+}
+
+function stringOr(value: unknown, fallback: string): string {
+    return typeof value === 'string' && value.trim() !== '' ? value : fallback;
+}
@@ -0,0 +1,39 @@
+export interface ActionSnapshot {
+    name: string;
+    description?: string;
+    script?: string[] | string;
+    playbook?: string;
+    interactive?: boolean;
+    [key: string]: any;
+}
+
+export interface BlockSnapshot {
+    name: string;
+    kind?: string;
+    version?: string;
+    from?: string;
+    description?: string;
+    config?: any;
+    actions?: ActionSnapshot[];
+    [key: string]: any;
+}
+
+export interface WorkspaceSnapshot {
+    workspace: {
+        name?: string;
+        organization?: string;
+        config?: any;
+        blocks?: BlockSnapshot[];
+        workflows?: any[];
+        [key: string]: any;
+    };
+    [key: string]: any;
+}
+
+/**
+ * Brings the output of `workspace snapshot` into the `WorkspaceSnapshot`
+ * shape. Older CLI versions print the workspace at the top level.
+ */
+export function normalizeSnapshot(snapshot: any): WorkspaceSnapshot {
+    return { ...snapshot, workspace: (snapshot && snapshot.workspace) || snapshot || {} };
+}
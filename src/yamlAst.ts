@@ -0,0 +1,149 @@
+import { Document, Node, Pair, Scalar, YAMLMap, YAMLSeq, isMap, isScalar, isSeq, parseDocument, visit } from 'yaml';
+
+/**
+ * Helpers for working with the `yaml` Document AST of .poly files.
+ *
+ * All ranges are character offsets into the source text so they can be used
+ * without a vscode.TextDocument; callers convert them with `positionAt`.
+ */
+
+export type YamlPath = (string | number)[];
+
+export interface OffsetRange {
+    start: number;
+    end: number;
+}
+
+export function parsePolyDocument(content: string): Document.Parsed {
+    return parseDocument(content);
+}
+
+/**
+ * Returns the pair for `key` in a YAML map, or undefined if the node is not a
+ * map or does not contain the key.
+ */
+export function findPair(node: unknown, key: string): Pair<any, any> | undefined {
+    if (!isMap(node)) {
+        return undefined;
+    }
+    return (node as YAMLMap).items.find(item => isScalar(item.key) && String(item.key.value) === key);
+}
+
+/**
+ * Resolves a path of map keys and sequence indices starting at `node`.
+ */
+export function getNodeAtPath(node: unknown, yamlPath: YamlPath): Node | undefined {
+    let current: unknown = node;
+    for (const segment of yamlPath) {
+        if (typeof segment === 'number') {
+            if (!isSeq(current)) {
+                return undefined;
+            }
+            current = (current as YAMLSeq).items[segment];
+        } else {
+            const pair = findPair(current, segment);
+            if (!pair) {
+                return undefined;
+            }
+            current = pair.value;
+        }
+    }
+    return current as Node | undefined;
+}
+
+/**
+ * Returns the items of the sequence at `yamlPath` or an empty list.
+ */
+export function getSeqItems(node: unknown, yamlPath: YamlPath): Node[] {
+    const seq = getNodeAtPath(node, yamlPath);
+    return isSeq(seq) ? (seq as YAMLSeq).items as Node[] : [];
+}
+
+/**
+ * Returns the plain string value of a scalar child of a map, if any.
+ */
+export function getScalarValue(node: unknown, key: string): string | undefined {
+    const pair = findPair(node, key);
+    if (pair && isScalar(pair.value) && pair.value.value !== null && pair.value.value !== undefined) {
+        return String(pair.value.value);
+    }
+    return undefined;
+}
+
+/**
+ * Finds the map item of a named sequence (e.g. `blocks`, `actions`) by its `name` field.
+ */
+export function findNamedItem(node: unknown, seqKey: string, name: string): YAMLMap | undefined {
+    return getSeqItems(node, [seqKey]).find(item => getScalarValue(item, 'name') === name) as YAMLMap | undefined;
+}
+
+export function nodeRange(node: Node | null | undefined): OffsetRange | undefined {
+    if (!node || !node.range) {
+        return undefined;
+    }
+    return { start: node.range[0], end: node.range[1] };
+}
+
+/**
+ * Range of the key of `key` inside a map. Useful for diagnostics that are
+ * about the field itself rather than its value.
+ */
+export function keyRange(map: unknown, key: string): OffsetRange | undefined {
+    const pair = findPair(map, key);
+    return pair ? nodeRange(pair.key) : undefined;
+}
+
+/**
+ * Range of the value of `key` inside a map, falling back to the key when the
+ * value is empty.
+ */
+export function valueRange(map: unknown, key: string): OffsetRange | undefined {
+    const pair = findPair(map, key);
+    if (!pair) {
+        return undefined;
+    }
+    return nodeRange(pair.value) || nodeRange(pair.key);
+}
+
+/**
+ * Range of the first line of a collection item, used to anchor diagnostics
+ * about a missing field to the item that lacks it. Prefers the `name` value.
+ */
+export function itemAnchorRange(item: Node | null | undefined, content: string): OffsetRange | undefined {
+    const nameRange = valueRange(item, 'name');
+    if (nameRange) {
+        return nameRange;
+    }
+    const range = nodeRange(item);
+    if (!range) {
+        return undefined;
+    }
+    const lineEnd = content.indexOf('\n', range.start);
+    return { start: range.start, end: lineEnd === -1 ? range.end : Math.min(lineEnd, range.end) };
+}
+
+/**
+ * Calls `callback` for every string scalar in the document together with its
+ * raw source range, so callers can search the text as written.
+ */
+export function visitStringScalars(ast: Document.Parsed, callback: (scalar: Scalar, range: OffsetRange) => void): void {
+    visit(ast, {
+        Scalar(_key, node) {
+            if (typeof node.value === 'string' && node.range) {
+                callback(node, { start: node.range[0], end: node.range[1] });
+            }
+        }
+    });
+}
+
+/**
+ * Converts a character offset into a zero-based line and character.
+ */
+export function offsetToPosition(content: string, offset: number): { line: number; character: number } {
+    const before = content.substring(0, offset);
+    const lastNewline = before.lastIndexOf('\n');
+    return {
+        line: before.split('\n').length - 1,
+        character: offset - (lastNewline + 1)
+    };
+}
@@ -3,10 +3,16 @@ const path = require('path');
 module.exports = {
   target: 'node',
   mode: 'production',
-  entry: './src/extension.ts',
+  entry: {
+    extension: './src/extension.ts',
+    // Language server, started by the extension or bin/polycrate-language-server.js
+    server: './src/server.ts',
+    // Command-line runner, see bin/polycrate-lint.js
+    polycrateLint: './src/polycrateLint.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'out'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2'
   },
   resolve: {